@@ -0,0 +1,12 @@
+// Account lifecycle shared by the user and operator routes
+
+import { getRegistry } from "./registry-do";
+
+/**
+ * Delete an account: release everything the registry holds for it, then destroy its AuthDO
+ */
+export async function destroyAccount(env: Env, authId: string): Promise<void> {
+	await getRegistry(env).removeAccount(authId);
+	const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authId));
+	await authDoStub.destroy();
+}
@@ -0,0 +1,134 @@
+// API tokens and email aliases, keeping the management credential separate from the public address
+
+import { createMiddleware } from "hono/factory";
+import { randomHex, sha256Hex } from "./crypto-utils";
+import { getRegistry } from "./registry-do";
+import type { Group } from "./types";
+
+const ALIAS_ALPHABET = "abcdefghijklmnopqrstuvwxyz0123456789";
+const ALIAS_LENGTH = 12;
+
+/**
+ * Generate a new secret API token
+ */
+export function generateApiToken(): string {
+	return randomHex(32);
+}
+
+/**
+ * Hash an API token for storage, so a leaked storage dump doesn't leak credentials
+ */
+export async function hashApiToken(token: string): Promise<string> {
+	return await sha256Hex(token);
+}
+
+/**
+ * Generate a random email alias
+ */
+export function generateAlias(): string {
+	const bytes = crypto.getRandomValues(new Uint8Array(ALIAS_LENGTH));
+	return [...bytes].map((byte) => ALIAS_ALPHABET[byte % ALIAS_ALPHABET.length]).join("");
+}
+
+/**
+ * Create a new alias for an auth ID in the registry and the account, retrying on the rare collision
+ */
+export async function createAlias(env: Env, authId: string): Promise<string> {
+	const registry = getRegistry(env);
+	for (let attempt = 0; attempt < 5; attempt++) {
+		const alias = generateAlias();
+		if (await registry.registerAlias(alias, authId)) {
+			const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authId));
+			await authDoStub.addAlias(alias);
+			return alias;
+		}
+	}
+	throw new Error("Failed to generate a unique email alias");
+}
+
+/**
+ * Resolve the local part of an incoming email address to an auth ID.
+ * Accounts created before aliases existed are still reachable by their auth ID until they claim a token
+ * or the grace period for them ends.
+ */
+export async function resolveRecipient(env: Env, localPart: string): Promise<string | null> {
+	const alias = localPart.toLowerCase();
+	const authId = await getRegistry(env).resolveAlias(alias);
+	if (authId) {
+		return authId;
+	}
+
+	const legacyStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(localPart));
+	if (await legacyStub.allowsLegacyAccess()) {
+		return localPart;
+	}
+
+	return null;
+}
+
+/**
+ * Extract the bearer token from an Authorization header
+ */
+export function bearerToken(header: string | undefined | null): string | null {
+	const match = header?.match(/^Bearer\s+(.+)$/i);
+	return match ? match[1].trim() : null;
+}
+
+/**
+ * Check a request is allowed to manage an auth ID
+ */
+export async function isAuthorized(env: Env, authId: string, authorizationHeader: string | undefined | null): Promise<boolean> {
+	const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authId));
+	return await authDoStub.authorize(bearerToken(authorizationHeader));
+}
+
+/**
+ * Middleware for `/admin` routes that requires the operator's `ADMIN_SECRET`.
+ * The admin API is switched off entirely while no secret is configured.
+ */
+export const requireAdminSecret = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+	if (!c.env.ADMIN_SECRET) {
+		return c.json({ error: "The admin API is not enabled on this instance" }, 404);
+	}
+	// Compare hashes so the comparison time doesn't depend on how much of the secret matches
+	const token = bearerToken(c.req.header('authorization'));
+	if (!token || await sha256Hex(token) !== await sha256Hex(c.env.ADMIN_SECRET)) {
+		return c.json({ error: "A valid admin secret is required (Authorization: Bearer <secret>)" }, 401);
+	}
+	await next();
+});
+
+/**
+ * Middleware for `/auth/:authId` routes that requires the account's API token
+ */
+export const requireApiToken = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+	const authId = c.req.param('authId');
+	if (!authId || !await isAuthorized(c.env, authId, c.req.header('authorization'))) {
+		return c.json({ error: "A valid API token is required (Authorization: Bearer <token>)" }, 401);
+	}
+	if (await c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId)).isSuspended()) {
+		return c.json({ error: "This account has been suspended by the operator" }, 403);
+	}
+	await next();
+});
+
+/**
+ * Check a request carries a group's API token
+ */
+export async function isGroupAuthorized(group: Group, authorizationHeader: string | undefined | null): Promise<boolean> {
+	const token = bearerToken(authorizationHeader);
+	return !!token && await hashApiToken(token) === group.tokenHash;
+}
+
+/**
+ * Middleware for `/groups/:name` routes that requires the group's API token. Unknown
+ * groups get the same answer as a wrong token, so names can't be probed.
+ */
+export const requireGroupToken = createMiddleware<{ Bindings: Env }>(async (c, next) => {
+	const name = c.req.param('name');
+	const group = name ? await getRegistry(c.env).getGroup(name) : null;
+	if (!group || !await isGroupAuthorized(group, c.req.header('authorization'))) {
+		return c.json({ error: "A valid group API token is required (Authorization: Bearer <token>)" }, 401);
+	}
+	await next();
+});
@@ -0,0 +1,130 @@
+// Unpacking ZIP archives of documents, such as a reading list or course pack, into separate uploads
+
+import { extractZipEntry, isZip, readZipDirectory } from "./zip";
+import { sniffDocumentType } from "./validation";
+import type { UploadFailure } from "./upload-utils";
+
+// Limits against zip bombs: entries in the directory, documents kept and bytes extracted in total.
+// The total covers every archive in a request and stays well below a Worker's 128 MB of memory.
+export const MAX_ARCHIVE_ENTRIES = 500;
+export const MAX_ARCHIVE_DOCUMENTS = 50;
+export const MAX_ARCHIVE_EXPANDED_SIZE = 48 * 1024 * 1024; // 48 MB
+
+const DOCUMENT_EXTENSIONS: Record<string, string> = {
+	pdf: "application/pdf",
+	epub: "application/epub+zip",
+	// Images are converted to PDF on upload
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	png: "image/png",
+};
+
+export interface ExpandedDocument {
+	file: File;
+	// Folder inside the upload's target folder, from the archive's directories
+	subfolder?: string;
+}
+
+export interface ArchiveExpansion {
+	documents: ExpandedDocument[];
+	failures: UploadFailure[];
+}
+
+/**
+ * Check whether a file is a ZIP archive of documents rather than a document itself (EPUBs are ZIPs too)
+ */
+export async function isArchive(file: File): Promise<boolean> {
+	const header = new Uint8Array(await file.slice(0, 1024).arrayBuffer());
+	return isZip(header) && sniffDocumentType(header) === null;
+}
+
+/**
+ * The name given with an upload of several files or archives, which only applies when they came
+ * down to a single document (or were merged into one)
+ */
+export function expansionName(expansion: ArchiveExpansion, name: string | null | undefined): string | undefined {
+	return expansion.documents.length === 1 ? name || undefined : undefined;
+}
+
+/**
+ * Replace any ZIP archives among the files with the PDFs, EPUBs and images inside them. Other entries
+ * are reported as failures, and an archive that is corrupt or over the limits is rejected whole.
+ */
+export async function expandArchives(files: File[], keepFolders: boolean, maxFileSize: number): Promise<ArchiveExpansion> {
+	const expansion: ArchiveExpansion = { documents: [], failures: [] };
+	let expandedSize = 0;
+
+	for (const file of files) {
+		if (!await isArchive(file)) {
+			expansion.documents.push({ file });
+			continue;
+		}
+
+		try {
+			const result = await expandArchive(file, keepFolders, maxFileSize, MAX_ARCHIVE_EXPANDED_SIZE - expandedSize);
+			expansion.documents.push(...result.documents);
+			expansion.failures.push(...result.failures);
+			expandedSize += result.expandedSize;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error(`Rejected archive ${file.name}: ${message}`);
+			expansion.failures.push({
+				success: false,
+				code: "invalid_archive",
+				fileName: file.name,
+				error: `Archive "${file.name}" could not be unpacked: ${message}`,
+			});
+		}
+	}
+
+	return expansion;
+}
+
+/**
+ * Extract the documents from one archive, throwing if it breaks any of the limits or extracts
+ * more than `allowance` bytes, what is left of the request's total
+ */
+async function expandArchive(file: File, keepFolders: boolean, maxFileSize: number, allowance: number): Promise<ArchiveExpansion & { expandedSize: number }> {
+	const bytes = new Uint8Array(await file.arrayBuffer());
+	const entries = readZipDirectory(bytes, MAX_ARCHIVE_ENTRIES);
+	const expansion: ArchiveExpansion = { documents: [], failures: [] };
+	let expandedSize = 0;
+
+	for (const entry of entries) {
+		const folders = entry.name.replace(/\\/g, "/").split("/").filter((part) => part.trim() && part !== "." && part !== "..");
+		const fileName = folders.pop() || "";
+
+		// Skip metadata that archivers add rather than reporting it as a failure
+		if (!fileName || fileName.startsWith(".") || folders[0] === "__MACOSX") {
+			continue;
+		}
+
+		const extension = fileName.split(".").pop()?.toLowerCase() || "";
+		if (!DOCUMENT_EXTENSIONS[extension]) {
+			expansion.failures.push({ success: false, code: "unsupported_type", fileName, error: `"${entry.name}" in "${file.name}" is not a PDF, EPUB or image` });
+			continue;
+		}
+		if (entry.size > maxFileSize) {
+			expansion.failures.push({ success: false, code: "too_large", fileName, error: `"${entry.name}" in "${file.name}" is ${entry.size} bytes, over the limit of ${maxFileSize} bytes` });
+			continue;
+		}
+		if (expansion.documents.length >= MAX_ARCHIVE_DOCUMENTS) {
+			throw new Error(`it has more than ${MAX_ARCHIVE_DOCUMENTS} documents`);
+		}
+
+		if (entry.size > allowance - expandedSize) {
+			throw new Error(`the archives expand to more than ${MAX_ARCHIVE_EXPANDED_SIZE} bytes in total`);
+		}
+
+		// Entry headers can lie about their size, so extraction enforces the remaining allowance itself
+		const data = await extractZipEntry(bytes, entry, Math.min(maxFileSize, allowance - expandedSize));
+		expandedSize += data.length;
+
+		expansion.documents.push({
+			file: new File([data], fileName, { type: DOCUMENT_EXTENSIONS[extension] }),
+			subfolder: keepFolders && folders.length > 0 ? folders.join("/") : undefined,
+		});
+	}
+
+	return { ...expansion, expandedSize };
+}
@@ -1,7 +1,23 @@
 import { DurableObject } from "cloudflare:workers";
-import { RegisterResult, AuthError, AuthStatus } from "./types";
+import { RegisterResult, AuthError, AuthStatus, UploadRecord, UploadState, AccountSettings, Webhook, EmailAlias, RemarkableEndpoints, TokenState, QuotaUsage, Feed, FeedSchedule, AccountSummary, Receipt, ReceiptItem } from "./types";
+import { hashApiToken } from "./api-auth";
+import { DEFAULT_FEED_SCHEDULE } from "./feeds";
+import { checkQuota, currentUsage, QuotaCheck, quotaLimits, refundUsage } from "./quotas";
+import { staleUploads } from "./upload-history";
+import { DEFAULT_RETENTION_HOURS } from "./settings";
+import { accountIdFromToken, DEFAULT_DISCOVERY_URL, DEFAULT_DOCUMENT_HOST, documentHostFromToken, mergeEndpoints, normalizeEndpoint } from "./endpoints";
 
-const ENDPOINT_DISCOVERY_URL = "https://internal.cloud.remarkable.com/discovery/v1/endpoints";
+const UPLOAD_KEY_PREFIX = "upload:";
+const FEED_DELIVERED_KEY_PREFIX = "feed_delivered:";
+const MAX_DELIVERED_FEED_ITEMS = 1000;
+const MIN_DIGEST_INTERVAL_MS = 20 * 60 * 60 * 1000;
+const REFRESH_MARGIN_MS = 60 * 60 * 1000; // Refresh access tokens an hour before they expire
+const REFRESH_RETRY_MS = 15 * 60 * 1000;
+const MIN_REFRESH_DELAY_MS = 60 * 1000;
+const RECEIPT_KEY_PREFIX = "receipt:";
+const MAX_RECEIPT_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+// When accounts from before API tokens stop working by auth ID alone
+const LEGACY_ACCESS_ENDS_AT = Date.parse("2027-01-31T00:00:00Z");
 
 /**
  * AuthDO is a Durable Object that manages device registration and authentication
@@ -12,6 +28,7 @@ export class AuthDO extends DurableObject<Env> {
     private access_token: string | null = null;
     private sync_host!: string;
     private auth_host!: string;
+    private document_host_override: string | null = null;
 
     constructor(ctx: DurableObjectState, env: Env) {
         super(ctx, env);
@@ -24,10 +41,22 @@ export class AuthDO extends DurableObject<Env> {
     }
 
     /**
-     * Initialize API hosts by fetching the discovery URL
+     * Initialize API hosts from the account's or deployment's overrides, falling back to the discovery URL
      */
     private async initializeApiHost(): Promise<void> {
-        const response = await fetch(ENDPOINT_DISCOVERY_URL);
+        const stored = await this.ctx.storage.get("endpoints") as RemarkableEndpoints | undefined;
+        const overrides = mergeEndpoints(this.env, stored || {});
+        this.document_host_override = overrides.documentHost || null;
+
+        // With both hosts given there's nothing to discover (self-hosted clouds may not offer discovery)
+        if (overrides.authHost && overrides.syncHost) {
+            this.auth_host = overrides.authHost;
+            this.sync_host = overrides.syncHost;
+            console.log("API hosts configured:", this.auth_host, this.sync_host);
+            return;
+        }
+
+        const response = await fetch(overrides.discoveryUrl || DEFAULT_DISCOVERY_URL);
         if (response.status !== 200) {
             throw new Error(`Failed to fetch discovery URL (response code): ${response.status}`);
         }
@@ -38,17 +67,17 @@ export class AuthDO extends DurableObject<Env> {
             mqttbroker: string;
         } = await response.json();
 
-        const auth_host = data.webapp;
+        const auth_host = overrides.authHost || normalizeEndpoint(data.webapp || "", false);
         if (!auth_host) {
-            throw new Error(`Failed to fetch auth host: ${auth_host}`);
+            throw new Error(`Failed to fetch auth host: ${data.webapp}`);
         }
-        this.auth_host = `https://${auth_host}`;
+        this.auth_host = auth_host;
 
-        const sync_host = data.notifications;
+        const sync_host = overrides.syncHost || normalizeEndpoint(data.notifications || "", false);
         if (!sync_host) {
-            throw new Error(`Failed to fetch sync host: ${sync_host}`);
+            throw new Error(`Failed to fetch sync host: ${data.notifications}`);
         }
-        this.sync_host = `https://${sync_host}`;
+        this.sync_host = sync_host;
 
         console.log("API hosts initialized:", this.auth_host, this.sync_host);
     }
@@ -58,6 +87,13 @@ export class AuthDO extends DurableObject<Env> {
      */
     private async checkRegisteredStatus(): Promise<boolean> {
         console.log("Checking registered status...");
+
+        // Revoked devices stay revoked until they register again
+        if (await this.getTokenState() === "revoked") {
+            console.log("Device has been revoked");
+            this.access_token = null;
+            return false;
+        }
         
         // First, check if we have a valid access token
         let access_token = await this.ctx.storage.get("access_token") as string | null;
@@ -70,6 +106,11 @@ export class AuthDO extends DurableObject<Env> {
                 if (exp > now) {
                     this.access_token = access_token;
                     console.log("Access token is valid");
+                    await this.storeDocumentHost(access_token);
+                    // Accounts from before proactive refresh won't have an alarm yet
+                    if (await this.ctx.storage.getAlarm() === null) {
+                        await this.scheduleRefresh(access_token);
+                    }
                     return true;
                 } else {
                     console.log("Access token expired");
@@ -85,6 +126,27 @@ export class AuthDO extends DurableObject<Env> {
         let refresh_token = await this.ctx.storage.get("refresh_token") as string | null;
         if (refresh_token) {
             // If refresh token is present, use it to get a new access token
+            if (await this.refreshAccessToken(refresh_token)) {
+                return true;
+            }
+        }
+
+        // If refresh token is not present, we are not registered
+        console.log("No refresh token found, not registered");
+        this.access_token = null;
+        return false;
+    }
+
+    /**
+     * Exchange the refresh token for a new access token and record how it went.
+     * A 401 or 403 means the device was unpaired, so it is marked revoked; any other
+     * failure is treated as transient and retried by the alarm.
+     */
+    private async refreshAccessToken(refresh_token: string): Promise<boolean> {
+        const attemptedAt = new Date().toISOString();
+        let error: string;
+
+        try {
             let url = `${this.auth_host}/token/json/2/user/new`;
             let response = await fetch(url, {
                 method: "POST",
@@ -92,37 +154,164 @@ export class AuthDO extends DurableObject<Env> {
                     "authorization": `Bearer ${refresh_token}`,
                 }
             });
-            
+
             if (response.status === 200) {
                 let data = await response.text();
                 if (data) {
                     console.log("Refreshed access token");
                     this.access_token = data;
                     // Store the new access token
-                    await this.ctx.storage.put("access_token", data);
+                    await this.ctx.storage.put({
+                        access_token: data,
+                        token_state: "active",
+                        last_refresh_at: attemptedAt,
+                    });
+                    await this.ctx.storage.delete("last_refresh_error");
+                    await this.storeDocumentHost(data);
+                    await this.scheduleRefresh(data);
                     return true;
-                } else {
-                    console.log("Failed to refresh access token (no data)");
                 }
+                error = "Failed to refresh access token (no data)";
+            } else if (response.status === 401 || response.status === 403) {
+                console.log(`Device has been revoked (response code): ${response.status}`);
+                this.access_token = null;
+                await this.ctx.storage.put({
+                    token_state: "revoked",
+                    last_refresh_at: attemptedAt,
+                    last_refresh_error: `Device has been revoked (response code): ${response.status}`,
+                });
+                await this.ctx.storage.delete("access_token");
+                await this.ctx.storage.deleteAlarm();
+                return false;
             } else {
-                console.log(`Failed to refresh access token (response code): ${response.status}`);
+                error = `Failed to refresh access token (response code): ${response.status}`;
             }
+        } catch (fetchError) {
+            error = `Failed to refresh access token: ${fetchError instanceof Error ? fetchError.message : String(fetchError)}`;
         }
 
-        // If refresh token is not present, we are not registered
-        console.log("No refresh token found, not registered");
-        this.access_token = null;
+        console.log(error);
+        await this.ctx.storage.put({
+            token_state: "refresh_failing",
+            last_refresh_at: attemptedAt,
+            last_refresh_error: error,
+        });
+        await this.ctx.storage.setAlarm(Date.now() + REFRESH_RETRY_MS);
         return false;
     }
 
+    /**
+     * Set the alarm to refresh an access token ahead of its expiry
+     */
+    private async scheduleRefresh(accessToken: string): Promise<void> {
+        try {
+            const payload = JSON.parse(atob(accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+            const refreshAt = Math.max(payload.exp * 1000 - REFRESH_MARGIN_MS, Date.now() + MIN_REFRESH_DELAY_MS);
+            await this.ctx.storage.setAlarm(refreshAt);
+            console.log(`Next token refresh scheduled for ${new Date(refreshAt).toISOString()}`);
+        } catch (error) {
+            console.log("Failed to schedule token refresh:", error);
+        }
+    }
+
+    /**
+     * Alarm handler: refresh the access token before it expires, or retry a failed refresh
+     */
+    async alarm(): Promise<void> {
+        const refresh_token = await this.ctx.storage.get("refresh_token") as string | undefined;
+        if (!refresh_token || await this.getTokenState() === "revoked") {
+            return;
+        }
+
+        console.log("Refreshing access token from alarm...");
+        await this.refreshAccessToken(refresh_token);
+    }
+
+    /**
+     * Get the state of the account's reMarkable tokens
+     */
+    async getTokenState(): Promise<TokenState | null> {
+        return (await this.ctx.storage.get("token_state") as TokenState | undefined) || null;
+    }
+
+    /**
+     * Remember the document host for the region named in an access token
+     */
+    private async storeDocumentHost(accessToken: string): Promise<void> {
+        const documentHost = documentHostFromToken(accessToken);
+        if (documentHost && documentHost !== await this.ctx.storage.get("document_host")) {
+            console.log("Document host from token region:", documentHost);
+            await this.ctx.storage.put("document_host", documentHost);
+        }
+    }
+
+    /**
+     * Get the host documents are uploaded to: an override, the token's region, or the default
+     */
+    async getDocumentHost(): Promise<string> {
+        return this.document_host_override
+            || await this.ctx.storage.get("document_host") as string | undefined
+            || DEFAULT_DOCUMENT_HOST;
+    }
+
+    /**
+     * Get the account's endpoint overrides
+     */
+    async getEndpoints(): Promise<RemarkableEndpoints> {
+        return (await this.ctx.storage.get("endpoints") as RemarkableEndpoints | undefined) || {};
+    }
+
+    /**
+     * Replace the account's endpoint overrides and re-initialize the API hosts
+     */
+    async setEndpoints(endpoints: RemarkableEndpoints): Promise<void> {
+        await this.ctx.storage.put("endpoints", endpoints);
+        await this.initializeApiHost();
+    }
+
     /**
      * Register device with reMarkable Connect API
      */
-    async register(linkCode: string, deviceId: string): Promise<RegisterResult | AuthError> {
+    async register(linkCode: string, deviceId: string, endpoints?: RemarkableEndpoints): Promise<RegisterResult | AuthError> {
         console.log("Registering device...");
 
+        if (endpoints && Object.keys(endpoints).length > 0) {
+            await this.setEndpoints(endpoints);
+        }
+
+        const deviceToken = await this.requestDeviceToken(linkCode, deviceId);
+        if (!deviceToken.success) {
+            return deviceToken;
+        }
+
+        console.log("Registered successfully");
         await this.ctx.storage.put("device_id", deviceId);
+        await this.ctx.storage.put("refresh_token", deviceToken.token);
+
+        // A new refresh token starts afresh, even if a previous device was revoked
+        await this.ctx.storage.delete(["access_token", "token_state", "last_refresh_error"]);
+        if (!await this.ctx.storage.get("registered_at")) {
+            await this.ctx.storage.put("registered_at", new Date().toISOString());
+        }
+        
+        // Refresh the registered status to get an access token
+        if (await this.checkRegisteredStatus()) {
+            return {
+                success: true,
+                device_id: deviceId,
+            };
+        } else {
+            return {
+                success: false,
+                error: "Failed to register (not registered after token refresh)"
+            };
+        }
+    }
 
+    /**
+     * Pair a new device with a one-time link code, returning its device (refresh) token
+     */
+    private async requestDeviceToken(linkCode: string, deviceId: string): Promise<{ success: true; token: string } | AuthError> {
         let body = {
             "code": linkCode,
             "deviceDesc": "mobile-android", // We pretend to be a mobile android device
@@ -156,22 +345,39 @@ export class AuthDO extends DurableObject<Env> {
                 error: "Failed to register (no data)"
             };
         }
+        return { success: true, token: data };
+    }
 
-        console.log("Registered successfully");
-        await this.ctx.storage.put("refresh_token", data);
-        
-        // Refresh the registered status to get an access token
-        if (await this.checkRegisteredStatus()) {
-            return {
-                success: true,
-                device_id: deviceId,
-            };
-        } else {
-            return {
-                success: false,
-                error: "Failed to register (not registered after token refresh)"
-            };
+    /**
+     * Claim a legacy account for its owner by pairing a new device from the same reMarkable
+     * account. Knowing the auth ID isn't enough; a link code for that account is.
+     */
+    async reclaimLegacyAccount(linkCode: string): Promise<{ success: true } | AuthError> {
+        if (!await this.isLegacyAccount()) {
+            return { success: false, error: "This account already has an API token" };
+        }
+
+        const currentAccount = accountIdFromToken(await this.ctx.storage.get("refresh_token") as string);
+        if (!currentAccount) {
+            return { success: false, error: "The reMarkable account of this device can't be determined" };
+        }
+
+        const deviceId = crypto.randomUUID();
+        const deviceToken = await this.requestDeviceToken(linkCode, deviceId);
+        if (!deviceToken.success) {
+            return deviceToken;
         }
+        if (accountIdFromToken(deviceToken.token) !== currentAccount) {
+            return { success: false, error: "The one-time code is for a different reMarkable account" };
+        }
+
+        console.log("Legacy account claimed by pairing a new device");
+        await this.ctx.storage.put("device_id", deviceId);
+        await this.ctx.storage.put("refresh_token", deviceToken.token);
+        await this.ctx.storage.delete(["access_token", "token_state", "last_refresh_error"]);
+        this.access_token = null;
+        await this.checkRegisteredStatus();
+        return { success: true };
     }
 
     /**
@@ -201,21 +407,35 @@ export class AuthDO extends DurableObject<Env> {
     }
 
     /**
-     * Check if device is registered
+     * Check if the device was ever registered and still has its credentials
      */
-    async isRegistered(): Promise<boolean> {
+    private async hasCredentials(): Promise<boolean> {
         const deviceId = await this.ctx.storage.get("device_id") as string | null;
         const refreshToken = await this.ctx.storage.get("refresh_token") as string | null;
         return !!(deviceId && refreshToken);
     }
 
+    /**
+     * Check if device is registered and hasn't been revoked
+     */
+    async isRegistered(): Promise<boolean> {
+        return await this.hasCredentials() && await this.getTokenState() !== "revoked";
+    }
+
     /**
      * Get current authentication status
      */
     async getStatus(): Promise<AuthStatus> {
+        const tokenState = await this.getTokenState();
+        const refreshInfo = {
+            token_state: tokenState || undefined,
+            last_refresh_at: await this.ctx.storage.get("last_refresh_at") as string | undefined,
+            last_refresh_error: await this.ctx.storage.get("last_refresh_error") as string | undefined,
+        };
+
         const registered = await this.isRegistered();
         if (!registered) {
-            return { registered: false };
+            return tokenState === "revoked" ? { registered: false, ...refreshInfo } : { registered: false };
         }
 
         const deviceId = await this.ctx.storage.get("device_id") as string | null;
@@ -224,8 +444,454 @@ export class AuthDO extends DurableObject<Env> {
         return {
             registered: true,
             device_id: deviceId || undefined,
-            access_token_valid: !!accessToken
+            access_token_valid: !!accessToken,
+            ...refreshInfo,
+            legacy: await this.isLegacyAccount(),
+            auth_host: this.auth_host,
+            document_host: await this.getDocumentHost(),
+            usage: {
+                ...currentUsage(await this.ctx.storage.get("usage") as QuotaUsage | undefined, Date.now()),
+                limits: quotaLimits(this.env),
+            },
+        };
+    }
+
+    /**
+     * Count an upload of `bytes` against the account's limits, refusing it if it doesn't fit.
+     * Checking and counting happen together so concurrent uploads can't both squeeze in.
+     */
+    async consumeQuota(bytes: number): Promise<QuotaCheck> {
+        const now = Date.now();
+        const usage = currentUsage(await this.ctx.storage.get("usage") as QuotaUsage | undefined, now);
+        const check = checkQuota(usage, quotaLimits(this.env), bytes, now);
+        if (!check.allowed) {
+            return check;
+        }
+
+        usage.uploadsThisHour++;
+        usage.uploadsToday++;
+        usage.bytesToday += bytes;
+        await this.ctx.storage.put("usage", usage);
+        return check;
+    }
+
+    /**
+     * Give back what consumeQuota counted at `chargedAt` for an upload that was never queued
+     */
+    async refundQuota(bytes: number, chargedAt: number): Promise<void> {
+        const usage = currentUsage(await this.ctx.storage.get("usage") as QuotaUsage | undefined, Date.now());
+        await this.ctx.storage.put("usage", refundUsage(usage, bytes, chargedAt));
+    }
+
+    /**
+     * Summarise the account for the operator's admin console
+     */
+    async getAdminSummary(authId: string): Promise<AccountSummary> {
+        const uploads = await this.listUploads();
+        return {
+            authId,
+            registered: await this.hasCredentials(),
+            registeredAt: await this.ctx.storage.get("registered_at") as string | undefined,
+            suspended: await this.isSuspended(),
+            tokenState: await this.getTokenState() || undefined,
+            lastRefreshError: await this.ctx.storage.get("last_refresh_error") as string | undefined,
+            lastUploadAt: uploads[0]?.createdAt,
+            uploads: uploads.length,
+            failedUploads: uploads.filter((upload) => upload.state === "failed").length,
+            usage: currentUsage(await this.ctx.storage.get("usage") as QuotaUsage | undefined, Date.now()),
+            feeds: (await this.getFeeds()).length,
+            aliases: (await this.getAliases()).map((alias) => alias.alias),
+        };
+    }
+
+    /**
+     * Check whether the operator has suspended the account
+     */
+    async isSuspended(): Promise<boolean> {
+        return !!await this.ctx.storage.get("suspended");
+    }
+
+    /**
+     * Suspend or re-enable the account. Suspended accounts can't upload or use the API.
+     */
+    async setSuspended(suspended: boolean): Promise<void> {
+        if (suspended) {
+            await this.ctx.storage.put("suspended", true);
+        } else {
+            await this.ctx.storage.delete("suspended");
+        }
+    }
+
+    /**
+     * Store the hash of a new API token, replacing any previous one
+     */
+    async setApiToken(token: string): Promise<void> {
+        await this.ctx.storage.put("api_token_hash", await hashApiToken(token));
+    }
+
+    /**
+     * Check an API token against the stored hash. Accounts without a token (registered
+     * before tokens existed) are authorized by their auth ID alone until the grace period
+     * ends; unregistered ones never are.
+     */
+    async authorize(token: string | null): Promise<boolean> {
+        const tokenHash = await this.ctx.storage.get("api_token_hash") as string | undefined;
+        if (!tokenHash) {
+            return await this.allowsLegacyAccess();
+        }
+        return !!token && await hashApiToken(token) === tokenHash;
+    }
+
+    /**
+     * Check if the account was registered before API tokens and aliases existed
+     */
+    async isLegacyAccount(): Promise<boolean> {
+        const tokenHash = await this.ctx.storage.get("api_token_hash") as string | undefined;
+        return !tokenHash && await this.hasCredentials();
+    }
+
+    /**
+     * Check if the account can still be used by its auth ID alone, as legacy accounts can until
+     * the grace period ends. Afterwards they have to be claimed with a one-time code.
+     */
+    async allowsLegacyAccess(): Promise<boolean> {
+        return Date.now() < LEGACY_ACCESS_ENDS_AT && await this.isLegacyAccount();
+    }
+
+    /**
+     * Get the email aliases that deliver to this account
+     */
+    async getAliases(): Promise<EmailAlias[]> {
+        return (await this.ctx.storage.get("aliases") as EmailAlias[] | undefined) || [];
+    }
+
+    /**
+     * Record an email alias, which must already be registered in the RegistryDO
+     */
+    async addAlias(alias: string): Promise<void> {
+        const aliases = await this.getAliases();
+        if (!aliases.some((entry) => entry.alias === alias)) {
+            aliases.push({ alias, createdAt: new Date().toISOString() });
+            await this.ctx.storage.put("aliases", aliases);
+        }
+    }
+
+    /**
+     * Forget an email alias, returning whether it existed
+     */
+    async removeAlias(alias: string): Promise<boolean> {
+        const aliases = await this.getAliases();
+        const remaining = aliases.filter((entry) => entry.alias !== alias);
+        await this.ctx.storage.put("aliases", remaining);
+        return remaining.length !== aliases.length;
+    }
+
+    /**
+     * Record a new upload in the history, pruning old entries beyond the limit that are finished or stuck
+     */
+    async recordUpload(fileId: string, fileName: string, source: string, sha256?: string, group?: string): Promise<UploadRecord> {
+        const now = new Date().toISOString();
+        const record: UploadRecord = {
+            fileId,
+            fileName,
+            source,
+            sha256,
+            group,
+            state: "queued",
+            createdAt: now,
+            updatedAt: now,
+            steps: { queued: now },
+        };
+        await this.ctx.storage.put(`${UPLOAD_KEY_PREFIX}${fileId}`, record);
+
+        const uploads = await this.listUploads();
+        const retentionHours = (await this.getSettings()).retentionHours ?? DEFAULT_RETENTION_HOURS;
+        const stale = staleUploads(uploads, retentionHours, Date.now()).map((upload) => `${UPLOAD_KEY_PREFIX}${upload.fileId}`);
+        if (stale.length > 0) {
+            await this.ctx.storage.delete(stale);
+        }
+
+        return record;
+    }
+
+    /**
+     * Attach the workflow instance ID to an upload record
+     */
+    async setUploadWorkflow(fileId: string, workflowId: string): Promise<void> {
+        const record = await this.getUpload(fileId);
+        if (!record) {
+            return;
+        }
+        record.workflowId = workflowId;
+        await this.ctx.storage.put(`${UPLOAD_KEY_PREFIX}${fileId}`, record);
+    }
+
+    /**
+     * Move an upload to a new state, optionally recording the error that caused it
+     */
+    async updateUploadState(fileId: string, state: UploadState, error?: string): Promise<void> {
+        const record = await this.getUpload(fileId);
+        if (!record) {
+            console.log(`Upload ${fileId} not found in history, ignoring state ${state}`);
+            return;
+        }
+        const now = new Date().toISOString();
+        record.state = state;
+        record.updatedAt = now;
+        record.steps[state] = now;
+        if (error) {
+            record.error = error;
+        }
+        await this.ctx.storage.put(`${UPLOAD_KEY_PREFIX}${fileId}`, record);
+    }
+
+    /**
+     * Count a re-send of an upload, returning false once it has been re-sent `limit` times
+     */
+    async recordResend(fileId: string, limit: number): Promise<boolean> {
+        const record = await this.getUpload(fileId);
+        if (!record || (record.resends || 0) >= limit) {
+            return false;
+        }
+        record.resends = (record.resends || 0) + 1;
+        record.updatedAt = new Date().toISOString();
+        await this.ctx.storage.put(`${UPLOAD_KEY_PREFIX}${fileId}`, record);
+        return true;
+    }
+
+    /**
+     * Get a single upload record
+     */
+    async getUpload(fileId: string): Promise<UploadRecord | null> {
+        return (await this.ctx.storage.get(`${UPLOAD_KEY_PREFIX}${fileId}`) as UploadRecord | undefined) || null;
+    }
+
+    /**
+     * List upload records, newest first
+     */
+    async listUploads(): Promise<UploadRecord[]> {
+        const entries = await this.ctx.storage.list<UploadRecord>({ prefix: UPLOAD_KEY_PREFIX });
+        return [...entries.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    /**
+     * Find an upload of the same content within the last `windowMs`, ignoring ones that failed
+     */
+    async findDuplicate(sha256: string, windowMs: number): Promise<UploadRecord | null> {
+        const since = new Date(Date.now() - windowMs).toISOString();
+        const uploads = await this.listUploads();
+        return uploads.find((upload) => upload.sha256 === sha256 && upload.state !== "failed" && upload.createdAt >= since) || null;
+    }
+
+    /**
+     * Get the account's settings
+     */
+    async getSettings(): Promise<AccountSettings> {
+        return (await this.ctx.storage.get("settings") as AccountSettings | undefined) || {};
+    }
+
+    /**
+     * Merge changes into the account's settings. Keys set to undefined are removed.
+     */
+    async updateSettings(changes: Partial<AccountSettings>): Promise<AccountSettings> {
+        const settings: AccountSettings = { ...await this.getSettings(), ...changes };
+        for (const key of Object.keys(settings) as (keyof AccountSettings)[]) {
+            if (settings[key] === undefined) {
+                delete settings[key];
+            }
+        }
+        await this.ctx.storage.put("settings", settings);
+        return settings;
+    }
+
+    /**
+     * Get the webhooks registered for this account
+     */
+    async getWebhooks(): Promise<Webhook[]> {
+        return (await this.ctx.storage.get("webhooks") as Webhook[] | undefined) || [];
+    }
+
+    /**
+     * Register a webhook URL, returning it along with its signing secret
+     */
+    async addWebhook(url: string, secret: string): Promise<Webhook> {
+        const webhook: Webhook = {
+            id: crypto.randomUUID(),
+            url,
+            secret,
+            createdAt: new Date().toISOString(),
         };
+        await this.ctx.storage.put("webhooks", [...await this.getWebhooks(), webhook]);
+        return webhook;
+    }
+
+    /**
+     * Remove a webhook, returning whether it existed
+     */
+    async removeWebhook(webhookId: string): Promise<boolean> {
+        const webhooks = await this.getWebhooks();
+        const remaining = webhooks.filter((webhook) => webhook.id !== webhookId);
+        await this.ctx.storage.put("webhooks", remaining);
+        return remaining.length !== webhooks.length;
+    }
+
+    /**
+     * Get the feeds this account is subscribed to
+     */
+    async getFeeds(): Promise<Feed[]> {
+        return (await this.ctx.storage.get("feeds") as Feed[] | undefined) || [];
+    }
+
+    /**
+     * Subscribe to a feed
+     */
+    async addFeed(url: string, title: string): Promise<Feed> {
+        const feed: Feed = {
+            id: crypto.randomUUID(),
+            url,
+            title,
+            createdAt: new Date().toISOString(),
+        };
+        await this.ctx.storage.put("feeds", [...await this.getFeeds(), feed]);
+        return feed;
+    }
+
+    /**
+     * Unsubscribe from a feed, returning whether it existed
+     */
+    async removeFeed(feedId: string): Promise<boolean> {
+        const feeds = await this.getFeeds();
+        const remaining = feeds.filter((feed) => feed.id !== feedId);
+        await this.ctx.storage.put("feeds", remaining);
+        await this.ctx.storage.delete(`${FEED_DELIVERED_KEY_PREFIX}${feedId}`);
+        return remaining.length !== feeds.length;
+    }
+
+    /**
+     * Record the outcome of fetching a feed
+     */
+    async updateFeedStatus(feedId: string, error?: string): Promise<void> {
+        const feeds = await this.getFeeds();
+        const feed = feeds.find((candidate) => candidate.id === feedId);
+        if (!feed) {
+            return;
+        }
+        feed.lastFetchedAt = new Date().toISOString();
+        feed.lastError = error;
+        await this.ctx.storage.put("feeds", feeds);
+    }
+
+    /**
+     * Get the IDs of a feed's items that have already been sent in a digest
+     */
+    async getDeliveredFeedItems(feedId: string): Promise<string[]> {
+        return (await this.ctx.storage.get(`${FEED_DELIVERED_KEY_PREFIX}${feedId}`) as string[] | undefined) || [];
+    }
+
+    /**
+     * Remember that items were sent, keeping only the most recent IDs
+     */
+    async markFeedItemsDelivered(feedId: string, itemIds: string[]): Promise<void> {
+        const delivered = [...await this.getDeliveredFeedItems(feedId), ...itemIds];
+        await this.ctx.storage.put(`${FEED_DELIVERED_KEY_PREFIX}${feedId}`, delivered.slice(-MAX_DELIVERED_FEED_ITEMS));
+    }
+
+    /**
+     * Get when the feed digest is sent
+     */
+    async getFeedSchedule(): Promise<FeedSchedule> {
+        return (await this.ctx.storage.get("feed_schedule") as FeedSchedule | undefined) || DEFAULT_FEED_SCHEDULE;
+    }
+
+    /**
+     * Change when the feed digest is sent
+     */
+    async setFeedSchedule(schedule: FeedSchedule): Promise<void> {
+        await this.ctx.storage.put("feed_schedule", schedule);
+    }
+
+    /**
+     * Claim the scheduled digest, returning false if one was already sent recently
+     * (so an overlapping or repeated cron run doesn't send it twice)
+     */
+    async claimDigest(): Promise<boolean> {
+        const last = await this.ctx.storage.get("last_digest_at") as number | undefined;
+        if (last && Date.now() - last < MIN_DIGEST_INTERVAL_MS) {
+            return false;
+        }
+        await this.ctx.storage.put("last_digest_at", Date.now());
+        return true;
+    }
+
+    /**
+     * Start tracking the uploads from an email for its reply receipt, dropping
+     * receipts whose uploads never finished
+     */
+    async openReceipt(receipt: Receipt): Promise<void> {
+        const cutoff = new Date(Date.now() - MAX_RECEIPT_AGE_MS).toISOString();
+        const receipts = await this.ctx.storage.list<Receipt>({ prefix: RECEIPT_KEY_PREFIX });
+        const stale = [...receipts.values()].filter((entry) => entry.createdAt < cutoff).map((entry) => `${RECEIPT_KEY_PREFIX}${entry.id}`);
+        if (stale.length > 0) {
+            await this.ctx.storage.delete(stale);
+        }
+        await this.ctx.storage.put(`${RECEIPT_KEY_PREFIX}${receipt.id}`, receipt);
+    }
+
+    /**
+     * Record the outcome of one of a receipt's items. Items that already have an outcome are
+     * left alone. Once none is pending the receipt is returned, only this once, to be sent.
+     */
+    async settleReceiptItem(receiptId: string, index: number, update: Partial<ReceiptItem>): Promise<Receipt | null> {
+        const receipt = await this.ctx.storage.get(`${RECEIPT_KEY_PREFIX}${receiptId}`) as Receipt | undefined;
+        if (!receipt || !receipt.items[index]) {
+            return null;
+        }
+
+        if (receipt.items[index].status === "pending") {
+            receipt.items[index] = { ...receipt.items[index], ...update };
+        }
+        if (receipt.items.some((item) => item.status === "pending")) {
+            await this.ctx.storage.put(`${RECEIPT_KEY_PREFIX}${receiptId}`, receipt);
+            return null;
+        }
+
+        await this.ctx.storage.delete(`${RECEIPT_KEY_PREFIX}${receiptId}`);
+        return receipt;
+    }
+
+    /**
+     * Forget a receipt that won't be sent, because its email was rejected instead
+     */
+    async discardReceipt(receiptId: string): Promise<void> {
+        await this.ctx.storage.delete(`${RECEIPT_KEY_PREFIX}${receiptId}`);
+    }
+
+    /**
+     * Get the list of sender addresses and domains allowed to email this account
+     */
+    async getAllowedSenders(): Promise<string[]> {
+        return (await this.ctx.storage.get("allowed_senders") as string[] | undefined) || [];
+    }
+
+    /**
+     * Add an already-normalised sender address or domain to the allowlist
+     */
+    async addAllowedSender(sender: string): Promise<string[]> {
+        const senders = await this.getAllowedSenders();
+        if (!senders.includes(sender)) {
+            senders.push(sender);
+            await this.ctx.storage.put("allowed_senders", senders);
+        }
+        return senders;
+    }
+
+    /**
+     * Remove a sender address or domain from the allowlist
+     */
+    async removeAllowedSender(sender: string): Promise<string[]> {
+        const senders = (await this.getAllowedSenders()).filter((entry) => entry !== sender);
+        await this.ctx.storage.put("allowed_senders", senders);
+        return senders;
     }
 
     /**
@@ -234,7 +900,8 @@ export class AuthDO extends DurableObject<Env> {
     async destroy(): Promise<void> {
         console.log("Destroying AuthDO and clearing all data...");
         
-        // Clear all stored data
+        // Clear all stored data, including any pending token refresh
+        await this.ctx.storage.deleteAlarm();
         await this.ctx.storage.deleteAll();
         
         // Reset in-memory state
@@ -0,0 +1,23 @@
+// Small helpers around the Web Crypto API
+
+/**
+ * Hex encode bytes
+ */
+export function toHex(bytes: Uint8Array): string {
+	return [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Random bytes, hex encoded
+ */
+export function randomHex(byteLength: number): string {
+	return toHex(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * SHA-256 digest, hex encoded
+ */
+export async function sha256Hex(data: string | ArrayBuffer | Uint8Array): Promise<string> {
+	const bytes = typeof data === "string" ? new TextEncoder().encode(data) : data;
+	return toHex(new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)));
+}
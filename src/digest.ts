@@ -0,0 +1,123 @@
+// Feed digests: new items from an account's feeds packaged as one EPUB and sent like any other upload
+
+import { buildEpub, EpubChapter } from "./epub";
+import { escapeXml, htmlToXhtml } from "./html-to-xhtml";
+import { fetchFeed, FeedItem, isDigestDue } from "./feeds";
+import { uploadFile } from "./upload-utils";
+
+const MAX_ITEMS_PER_FEED = 10;
+const MAX_DIGEST_ITEMS = 50;
+// Digests sent at once by the cron trigger, each fetching its feeds one after another
+const SCHEDULED_DIGEST_CONCURRENCY = 4;
+
+export type DigestResult =
+	| { success: true; items: number; fileId?: string }
+	| { success: false; error: string };
+
+/**
+ * A chapter for one feed item, headed by where it came from
+ */
+function itemChapter(feedTitle: string, item: FeedItem): EpubChapter {
+	const source = [escapeXml(feedTitle)];
+	if (item.published) {
+		source.push(escapeXml(item.published.toISOString().slice(0, 10)));
+	}
+	if (item.link && /^https?:/i.test(item.link)) {
+		source.push(`<a href="${escapeXml(item.link)}">Original</a>`);
+	}
+
+	return {
+		title: item.title,
+		// Remote images aren't fetched, so they are dropped like any other unresolvable image
+		body: `<p><em>${source.join(" · ")}</em></p>\n${htmlToXhtml(item.html, () => null)}`,
+	};
+}
+
+/**
+ * Fetch an account's feeds and send the items it hasn't received before as a single EPUB.
+ * Each feed contributes its newest items, and the rest of its backlog is marked as seen with them,
+ * once the digest has been handed to the upload workflow.
+ */
+export async function deliverDigest(env: Env, authId: string, now: Date = new Date()): Promise<DigestResult> {
+	const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authId));
+	const feeds = await authDoStub.getFeeds();
+	const schedule = await authDoStub.getFeedSchedule();
+
+	const chapters: EpubChapter[] = [];
+	const delivered = new Map<string, string[]>();
+	for (const feed of feeds) {
+		if (chapters.length >= MAX_DIGEST_ITEMS) {
+			break;
+		}
+
+		const fetched = await fetchFeed(feed.url);
+		if (!fetched.success) {
+			console.error(`Failed to fetch feed ${feed.url} for ${authId}: ${fetched.error}`);
+			await authDoStub.updateFeedStatus(feed.id, fetched.error);
+			continue;
+		}
+		await authDoStub.updateFeedStatus(feed.id);
+
+		const seen = new Set(await authDoStub.getDeliveredFeedItems(feed.id));
+		const unseen = fetched.feed.items
+			.filter((item) => !seen.has(item.id))
+			.sort((a, b) => (b.published?.getTime() || 0) - (a.published?.getTime() || 0));
+		const items = unseen.slice(0, Math.min(MAX_ITEMS_PER_FEED, MAX_DIGEST_ITEMS - chapters.length));
+
+		chapters.push(...items.map((item) => itemChapter(feed.title, item)));
+		if (items.length > 0) {
+			// Older items that didn't fit are skipped too, rather than trickling out in later digests
+			delivered.set(feed.id, unseen.map((item) => item.id));
+		}
+	}
+
+	if (chapters.length === 0) {
+		console.log(`No new feed items for ${authId}`);
+		return { success: true, items: 0 };
+	}
+
+	const title = `Digest ${now.toISOString().slice(0, 10)}`;
+	const epub = buildEpub({ title, author: "Send to reMarkable", date: now, chapters });
+	const file = new File([epub], `${title}.epub`, { type: "application/epub+zip" });
+
+	const result = await uploadFile(env, file, authId, undefined, { folder: schedule.folder, name: title, source: "feed-digest" });
+	if (!result.success) {
+		console.error(`Digest for ${authId} was rejected: ${result.error}`);
+		return { success: false, error: result.error };
+	}
+
+	for (const [feedId, itemIds] of delivered) {
+		await authDoStub.markFeedItemsDelivered(feedId, itemIds);
+	}
+
+	console.log(`Sent digest of ${chapters.length} items to ${authId} as ${result.fileId}`);
+	return { success: true, items: chapters.length, fileId: result.fileId };
+}
+
+/**
+ * Send an account's digest if its schedule is due in the hour starting at `now`
+ */
+async function sendScheduledDigest(env: Env, authId: string, now: Date): Promise<void> {
+	try {
+		const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authId));
+		if (!isDigestDue(await authDoStub.getFeedSchedule(), now) || !await authDoStub.claimDigest()) {
+			return;
+		}
+		await deliverDigest(env, authId, now);
+	} catch (error) {
+		console.error(`Failed to send digest to ${authId}:`, error);
+	}
+}
+
+/**
+ * Send the due digests of every account with feeds, a few at a time. Used by the cron trigger.
+ */
+export async function sendScheduledDigests(env: Env, authIds: string[], now: Date): Promise<void> {
+	const pending = [...authIds];
+	const worker = async () => {
+		for (let authId = pending.shift(); authId !== undefined; authId = pending.shift()) {
+			await sendScheduledDigest(env, authId, now);
+		}
+	};
+	await Promise.all(Array.from({ length: Math.min(SCHEDULED_DIGEST_CONCURRENCY, pending.length) }, worker));
+}
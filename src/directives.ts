@@ -0,0 +1,110 @@
+// Options written into the subject of an upload email, e.g. "Q3 results [folder:Work/Reports] [pages:1-10]"
+
+import { splitFolderPath } from "./remarkable-api";
+
+export const SUBJECT_DIRECTIVES = ["folder", "name", "merge", "pages"] as const;
+
+const MAX_PAGE_RANGES = 50;
+const DIRECTIVE_EXAMPLES: Record<string, string> = {
+	folder: "[folder:Reading/Papers]",
+	name: "[name:Q3 report]",
+	pages: "[pages:1-10]",
+};
+
+// Pages from `start` to `end` inclusive, counting from 1. Without an end the range runs to the last page.
+export interface PageRange {
+	start: number;
+	end?: number;
+}
+
+export interface SubjectDirectives {
+	folder?: string;
+	name?: string;
+	merge?: boolean;
+	pages?: PageRange[];
+}
+
+export interface ParsedSubject {
+	// The subject with the directives taken out
+	subject: string;
+	directives: SubjectDirectives;
+	// Unknown directives and ones with invalid values, explained for the sender
+	problems: string[];
+}
+
+/**
+ * Parse page ranges such as "1-10", "3" or "1,4,7-" (page 7 to the end). Returns null if any part is invalid.
+ */
+export function parsePageRanges(text: string): PageRange[] | null {
+	const parts = text.split(",").map((part) => part.trim());
+	if (parts.length > MAX_PAGE_RANGES) {
+		return null;
+	}
+
+	const ranges: PageRange[] = [];
+	for (const part of parts) {
+		const match = part.match(/^(\d+)\s*(?:(-)\s*(\d+)?)?$/);
+		if (!match) {
+			return null;
+		}
+		const start = Number(match[1]);
+		const end = match[2] ? (match[3] ? Number(match[3]) : undefined) : start;
+		if (start < 1 || (end !== undefined && end < start)) {
+			return null;
+		}
+		ranges.push(end === undefined ? { start } : { start, end });
+	}
+	return ranges;
+}
+
+/**
+ * Take the directives out of an email subject. Directives are square-bracketed, either a flag
+ * (`[merge]`) or a name and value (`[folder:Papers]`). Bracketed words that aren't directive
+ * names, such as the `[EXT]` tags some mail servers add, are left in the subject, but anything
+ * written as `[name:value]` is a directive, and one that isn't known is reported as a problem.
+ */
+export function parseSubjectDirectives(subject: string): ParsedSubject {
+	const directives: SubjectDirectives = {};
+	const problems: string[] = [];
+
+	const remaining = subject.replace(/\[\s*([a-z][a-z-]*)\s*(?::([^\]]*))?\]/gi, (match, rawName: string, rawValue?: string) => {
+		const name = rawName.toLowerCase();
+		const value = rawValue?.trim();
+
+		if (!(SUBJECT_DIRECTIVES as readonly string[]).includes(name)) {
+			if (rawValue === undefined) {
+				return match;
+			}
+			problems.push(`Unknown directive ${match} (supported: ${SUBJECT_DIRECTIVES.join(", ")})`);
+			return " ";
+		}
+
+		if (name === "merge") {
+			if (value) {
+				problems.push(`${match}: merge doesn't take a value`);
+			} else {
+				directives.merge = true;
+			}
+		} else if (!value || (name === "folder" && splitFolderPath(value).length === 0)) {
+			problems.push(`${match}: ${name} needs a value, e.g. ${DIRECTIVE_EXAMPLES[name]}`);
+		} else if (name === "folder") {
+			directives.folder = splitFolderPath(value).join("/");
+		} else if (name === "name") {
+			directives.name = value;
+		} else {
+			const pages = parsePageRanges(value);
+			if (pages) {
+				directives.pages = pages;
+			} else {
+				problems.push(`${match}: pages must be page numbers and ranges such as 1-10,12,15-`);
+			}
+		}
+		return " ";
+	});
+
+	return {
+		subject: remaining.replace(/\s+/g, " ").trim(),
+		directives,
+		problems,
+	};
+}
@@ -0,0 +1,120 @@
+// Where the reMarkable cloud (or a self-hosted stand-in such as rmfakecloud) lives
+
+import { RemarkableEndpoints } from "./types";
+import { checkUrl } from "./fetch-url";
+
+export const DEFAULT_DISCOVERY_URL = "https://internal.cloud.remarkable.com/discovery/v1/endpoints";
+export const DEFAULT_DOCUMENT_HOST = "https://eu.tectonic.remarkable.com";
+
+const ENDPOINT_KEYS: (keyof RemarkableEndpoints)[] = ["discoveryUrl", "authHost", "syncHost", "documentHost"];
+
+/**
+ * Turn a bare host or URL into an origin such as `https://host:port`, keeping the path for the discovery URL
+ */
+export function normalizeEndpoint(value: string, keepPath: boolean): string | null {
+	let url: URL;
+	try {
+		url = new URL(/^[a-z]+:\/\//i.test(value) ? value : `https://${value}`);
+	} catch {
+		return null;
+	}
+	if (url.protocol !== "https:" && url.protocol !== "http:") {
+		return null;
+	}
+	return keepPath ? `${url.origin}${url.pathname}` : url.origin;
+}
+
+/**
+ * Combine per-account overrides with the deployment's `REMARKABLE_*` vars. Accounts win.
+ */
+export function mergeEndpoints(env: Env, account: RemarkableEndpoints): RemarkableEndpoints {
+	const deployment: RemarkableEndpoints = {
+		discoveryUrl: env.REMARKABLE_DISCOVERY_URL || undefined,
+		authHost: env.REMARKABLE_AUTH_HOST || undefined,
+		syncHost: env.REMARKABLE_SYNC_HOST || undefined,
+		documentHost: env.REMARKABLE_DOCUMENT_HOST || undefined,
+	};
+	const merged: RemarkableEndpoints = {};
+	for (const key of ENDPOINT_KEYS) {
+		const value = account[key] || deployment[key];
+		if (value) {
+			merged[key] = normalizeEndpoint(value, key === "discoveryUrl") || undefined;
+		}
+	}
+	return merged;
+}
+
+/**
+ * Work out the document (upload) host from the user token's `tectonic` region claim
+ */
+export function documentHostFromToken(accessToken: string): string | null {
+	try {
+		const payload = JSON.parse(atob(accessToken.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+		if (typeof payload.tectonic === "string" && /^[a-z0-9-]+$/i.test(payload.tectonic)) {
+			return `https://${payload.tectonic}.tectonic.remarkable.com`;
+		}
+	} catch (error) {
+		console.log("Failed to read region from access token:", error);
+	}
+	return null;
+}
+
+/**
+ * Work out which reMarkable account a device or user token belongs to, from its `auth0-userid` claim
+ */
+export function accountIdFromToken(token: string | null | undefined): string | null {
+	try {
+		const payload = JSON.parse(atob(token!.split(".")[1].replace(/-/g, "+").replace(/_/g, "/")));
+		if (typeof payload["auth0-userid"] === "string" && payload["auth0-userid"]) {
+			return payload["auth0-userid"];
+		}
+	} catch (error) {
+		console.log("Failed to read account from token:", error);
+	}
+	return null;
+}
+
+export type EndpointsValidation =
+	| { success: true; endpoints: RemarkableEndpoints }
+	| { success: false; error: string };
+
+/**
+ * Validate per-account endpoint overrides from the API. They must be HTTPS URLs of public addresses,
+ * since the Worker will send requests (and the account's tokens) there. `ALLOW_HTTP_ENDPOINTS` lets
+ * them use plain HTTP, for trying out a self-hosted cloud.
+ */
+export async function validateEndpoints(env: Env, body: unknown): Promise<EndpointsValidation> {
+	if (body === undefined || body === null) {
+		return { success: true, endpoints: {} };
+	}
+	if (typeof body !== "object" || Array.isArray(body)) {
+		return { success: false, error: "endpoints must be a JSON object" };
+	}
+
+	const endpoints: RemarkableEndpoints = {};
+	for (const [key, value] of Object.entries(body)) {
+		if (!(ENDPOINT_KEYS as string[]).includes(key)) {
+			return { success: false, error: `Unknown endpoint: ${key}. Supported: ${ENDPOINT_KEYS.join(", ")}` };
+		}
+		if (value === null || value === "") {
+			continue;
+		}
+
+		const normalized = typeof value === "string" ? normalizeEndpoint(value, key === "discoveryUrl") : null;
+		if (!normalized) {
+			return { success: false, error: `${key} must be an http(s) URL or host name` };
+		}
+		if (normalized.startsWith("http:") && (env.ALLOW_HTTP_ENDPOINTS as string) !== "true") {
+			return { success: false, error: `${key} must use https` };
+		}
+
+		const urlError = await checkUrl(new URL(normalized));
+		if (urlError) {
+			return { success: false, error: `${key}: ${urlError}` };
+		}
+
+		endpoints[key as keyof RemarkableEndpoints] = normalized;
+	}
+
+	return { success: true, endpoints };
+}
@@ -0,0 +1,135 @@
+import { createZip, ZipEntry } from "./zip";
+import { escapeXml } from "./html-to-xhtml";
+
+export interface EpubChapter {
+	title: string;
+	// Well-formed XHTML body content
+	body: string;
+}
+
+export interface EpubImage {
+	// Path relative to the OEBPS directory, e.g. `images/image-1.png`
+	href: string;
+	mediaType: string;
+	data: Uint8Array;
+}
+
+export interface EpubOptions {
+	title: string;
+	author: string;
+	language?: string;
+	date?: Date;
+	chapters: EpubChapter[];
+	images?: EpubImage[];
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+img { max-width: 100%; height: auto; }
+table { border-collapse: collapse; max-width: 100%; }
+pre { white-space: pre-wrap; }
+`;
+
+function chapterDocument(chapter: EpubChapter, language: string): string {
+	return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${language}" lang="${language}">
+<head>
+<title>${escapeXml(chapter.title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+</head>
+<body>
+<h1>${escapeXml(chapter.title)}</h1>
+${chapter.body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Build an EPUB 3 book (with an EPUB 2 NCX for older readers) from XHTML chapters and images
+ */
+export function buildEpub(options: EpubOptions): Uint8Array {
+	const encoder = new TextEncoder();
+	const language = options.language || "en";
+	const images = options.images || [];
+	const identifier = `urn:uuid:${crypto.randomUUID()}`;
+	const modified = (options.date || new Date()).toISOString().replace(/\.\d{3}Z$/, "Z");
+	const title = escapeXml(options.title);
+	const author = escapeXml(options.author);
+
+	const chapterIds = options.chapters.map((_, index) => `chapter-${index + 1}`);
+
+	const containerXml = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>
+`;
+
+	const contentOpf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${identifier}</dc:identifier>
+<dc:title>${title}</dc:title>
+<dc:creator>${author}</dc:creator>
+<dc:language>${language}</dc:language>
+<meta property="dcterms:modified">${modified}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>
+<item id="style" href="style.css" media-type="text/css"/>
+${chapterIds.map((id) => `<item id="${id}" href="${id}.xhtml" media-type="application/xhtml+xml"/>`).join("\n")}
+${images.map((image, index) => `<item id="image-${index + 1}" href="${escapeXml(image.href)}" media-type="${image.mediaType}"/>`).join("\n")}
+</manifest>
+<spine toc="ncx">
+${chapterIds.map((id) => `<itemref idref="${id}"/>`).join("\n")}
+</spine>
+</package>
+`;
+
+	const navXhtml = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${language}" lang="${language}">
+<head><title>${title}</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>${title}</h1>
+<ol>
+${options.chapters.map((chapter, index) => `<li><a href="${chapterIds[index]}.xhtml">${escapeXml(chapter.title)}</a></li>`).join("\n")}
+</ol>
+</nav>
+</body>
+</html>
+`;
+
+	const tocNcx = `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head>
+<meta name="dtb:uid" content="${identifier}"/>
+</head>
+<docTitle><text>${title}</text></docTitle>
+<navMap>
+${options.chapters.map((chapter, index) => `<navPoint id="nav-${index + 1}" playOrder="${index + 1}"><navLabel><text>${escapeXml(chapter.title)}</text></navLabel><content src="${chapterIds[index]}.xhtml"/></navPoint>`).join("\n")}
+</navMap>
+</ncx>
+`;
+
+	// The mimetype entry must come first and be stored uncompressed
+	const entries: ZipEntry[] = [
+		{ name: "mimetype", data: encoder.encode("application/epub+zip") },
+		{ name: "META-INF/container.xml", data: encoder.encode(containerXml) },
+		{ name: "OEBPS/content.opf", data: encoder.encode(contentOpf) },
+		{ name: "OEBPS/nav.xhtml", data: encoder.encode(navXhtml) },
+		{ name: "OEBPS/toc.ncx", data: encoder.encode(tocNcx) },
+		{ name: "OEBPS/style.css", data: encoder.encode(STYLESHEET) },
+		...options.chapters.map((chapter, index) => ({
+			name: `OEBPS/${chapterIds[index]}.xhtml`,
+			data: encoder.encode(chapterDocument(chapter, language)),
+		})),
+		...images.map((image) => ({ name: `OEBPS/${image.href}`, data: image.data })),
+	];
+
+	return createZip(entries, options.date);
+}
@@ -0,0 +1,254 @@
+// RSS and Atom feed subscriptions
+
+import { FeedSchedule } from "./types";
+import { decodeEntities, parseAttributes } from "./html-to-xhtml";
+import { fetchPublic, readLimited } from "./fetch-url";
+import { splitFolderPath } from "./remarkable-api";
+
+export const MAX_FEEDS = 20;
+export const DEFAULT_FEED_SCHEDULE: FeedSchedule = { hour: 6 };
+
+const MAX_FEED_SIZE = 5 * 1024 * 1024; // 5 MB
+const MAX_FEED_ITEMS = 500;
+const FEED_ACCEPT = "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9";
+
+export interface FeedItem {
+	// The guid or id, falling back to the link, used to tell which items were delivered before
+	id: string;
+	title: string;
+	link?: string;
+	published?: Date;
+	// HTML content, or the summary when there is no full content
+	html: string;
+}
+
+export interface ParsedFeed {
+	title: string;
+	items: FeedItem[];
+}
+
+export type FetchFeedResult =
+	| { success: true; feed: ParsedFeed }
+	| { success: false; error: string };
+
+/**
+ * The text of an element, unwrapping CDATA sections and decoding entities everywhere else
+ */
+function elementText(raw: string): string {
+	let text = "";
+	let position = 0;
+	while (position < raw.length) {
+		const start = raw.indexOf("<![CDATA[", position);
+		const end = start === -1 ? -1 : raw.indexOf("]]>", start + 9);
+		if (end === -1) {
+			text += decodeEntities(raw.slice(position));
+			break;
+		}
+		text += decodeEntities(raw.slice(position, start)) + raw.slice(start + 9, end);
+		position = end + 3;
+	}
+	return text.trim();
+}
+
+interface Tag {
+	start: number;
+	// Just past the tag's `>`
+	end: number;
+	attributes: Record<string, string>;
+	selfClosing: boolean;
+}
+
+/**
+ * The opening tags with a (possibly prefixed) name, in order. Feeds are untrusted and can be
+ * megabytes long, so everything here scans forward only, and an unclosed tag ends the search.
+ */
+function* openingTags(xml: string, name: string, from = 0): Generator<Tag> {
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const pattern = new RegExp(`<${escaped}(?=[\\s/>])`, "gi");
+	pattern.lastIndex = from;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(xml))) {
+		const close = xml.indexOf(">", pattern.lastIndex);
+		if (close === -1) {
+			return;
+		}
+		const source = xml.slice(pattern.lastIndex, close);
+		const selfClosing = source.endsWith("/");
+		yield { start: match.index, end: close + 1, attributes: parseAttributes(selfClosing ? source.slice(0, -1) : source), selfClosing };
+		pattern.lastIndex = close + 1;
+	}
+}
+
+/**
+ * Find the position of the closing tag for a name, from an offset
+ */
+function closingTag(xml: string, name: string, from: number): { start: number; end: number } | null {
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+	const pattern = new RegExp(`</${escaped}\\s*>`, "gi");
+	pattern.lastIndex = from;
+	const match = pattern.exec(xml);
+	return match ? { start: match.index, end: pattern.lastIndex } : null;
+}
+
+/**
+ * The elements with a name, up to a limit, as their position and markup
+ */
+function findBlocks(xml: string, name: string, limit: number): { start: number; xml: string }[] {
+	const blocks: { start: number; xml: string }[] = [];
+	let from = 0;
+	while (blocks.length < limit) {
+		const tag = openingTags(xml, name, from).next();
+		if (tag.done) {
+			break;
+		}
+		// Without a closing tag here, there's none for a later element either
+		const close = tag.value.selfClosing ? { end: tag.value.end } : closingTag(xml, name, tag.value.end);
+		if (!close) {
+			break;
+		}
+		blocks.push({ start: tag.value.start, xml: xml.slice(tag.value.start, close.end) });
+		from = close.end;
+	}
+	return blocks;
+}
+
+/**
+ * Find the first child element with one of the given (possibly prefixed) names
+ */
+function findElement(xml: string, names: string[]): { attributes: Record<string, string>; content: string } | null {
+	for (const name of names) {
+		for (const tag of openingTags(xml, name)) {
+			if (tag.selfClosing) {
+				return { attributes: tag.attributes, content: "" };
+			}
+			const close = closingTag(xml, name, tag.end);
+			if (close) {
+				return { attributes: tag.attributes, content: xml.slice(tag.end, close.start) };
+			}
+			break;
+		}
+	}
+	return null;
+}
+
+/**
+ * The link to an Atom entry's web page: the `alternate` link, or the first link without a rel
+ */
+function atomLink(xml: string): string | undefined {
+	const links = [...openingTags(xml, "link")].map((tag) => tag.attributes);
+	const link = links.find((attributes) => attributes.rel === "alternate") || links.find((attributes) => !attributes.rel);
+	return link?.href;
+}
+
+/**
+ * Parse an RSS 2.0, RSS 1.0 (RDF) or Atom feed
+ */
+export function parseFeed(xml: string): ParsedFeed | null {
+	const isAtom = /<feed[\s>]/i.test(xml);
+	if (!isAtom && !/<(rss|rdf:RDF)[\s>]/i.test(xml)) {
+		return null;
+	}
+
+	const blocks = findBlocks(xml, isAtom ? "entry" : "item", MAX_FEED_ITEMS);
+
+	// The feed's own title comes before its first item
+	const header = blocks.length > 0 ? xml.slice(0, blocks[0].start) : xml;
+	const feedTitle = elementText(findElement(header, ["title"])?.content || "") || "Untitled feed";
+
+	const items: FeedItem[] = [];
+	for (const { xml: block } of blocks) {
+		const link = isAtom ? atomLink(block) : elementText(findElement(block, ["link"])?.content || "") || undefined;
+		const id = elementText(findElement(block, isAtom ? ["id"] : ["guid"])?.content || "") || link;
+		if (!id) {
+			continue;
+		}
+
+		const dateText = elementText(findElement(block, isAtom ? ["published", "updated"] : ["pubDate", "dc:date"])?.content || "");
+		const published = dateText ? new Date(dateText) : undefined;
+
+		// Atom `xhtml` content is inline markup, everything else is escaped or CDATA-wrapped HTML
+		const content = findElement(block, isAtom ? ["content", "summary"] : ["content:encoded", "description"]);
+		const html = !content ? "" : content.attributes.type === "xhtml" ? content.content : elementText(content.content);
+
+		items.push({
+			id,
+			title: elementText(findElement(block, ["title"])?.content || "") || "Untitled",
+			link,
+			published: published && !isNaN(published.getTime()) ? published : undefined,
+			html,
+		});
+	}
+
+	return { title: feedTitle, items };
+}
+
+/**
+ * Fetch and parse a feed
+ */
+export async function fetchFeed(url: string): Promise<FetchFeedResult> {
+	let fetched;
+	try {
+		fetched = await fetchPublic(url, FEED_ACCEPT);
+	} catch (error) {
+		return { success: false, error: `Failed to fetch feed: ${error instanceof Error ? error.message : String(error)}` };
+	}
+	if (!fetched.success) {
+		return fetched;
+	}
+	if (!fetched.response.ok) {
+		return { success: false, error: `Failed to fetch feed (response code): ${fetched.response.status}` };
+	}
+
+	const content = await readLimited(fetched.response, MAX_FEED_SIZE);
+	if (!content) {
+		return { success: false, error: `Feed is too large (over ${MAX_FEED_SIZE} bytes)` };
+	}
+
+	const feed = parseFeed(new TextDecoder().decode(content));
+	if (!feed) {
+		return { success: false, error: "Not an RSS or Atom feed" };
+	}
+	return { success: true, feed };
+}
+
+export type FeedScheduleValidation =
+	| { success: true; schedule: FeedSchedule }
+	| { success: false; error: string };
+
+/**
+ * Validate a digest schedule from the API
+ */
+export function validateFeedSchedule(body: unknown): FeedScheduleValidation {
+	if (typeof body !== "object" || body === null || Array.isArray(body)) {
+		return { success: false, error: "Schedule must be a JSON object" };
+	}
+	const { hour, days, folder } = body as Record<string, unknown>;
+
+	if (typeof hour !== "number" || !Number.isInteger(hour) || hour < 0 || hour > 23) {
+		return { success: false, error: "hour must be a whole number from 0 to 23 (UTC)" };
+	}
+	const schedule: FeedSchedule = { hour };
+
+	if (days !== undefined && days !== null) {
+		if (!Array.isArray(days) || days.length === 0 || !days.every((day) => Number.isInteger(day) && day >= 0 && day <= 6)) {
+			return { success: false, error: "days must be a list of weekdays from 0 (Sunday) to 6 (Saturday)" };
+		}
+		schedule.days = [...new Set(days as number[])].sort();
+	}
+
+	if (folder !== undefined && folder !== null && folder !== "") {
+		if (typeof folder !== "string" || splitFolderPath(folder).length === 0) {
+			return { success: false, error: "folder must be a folder path such as \"Reading/Digests\"" };
+		}
+		schedule.folder = splitFolderPath(folder).join("/");
+	}
+
+	return { success: true, schedule };
+}
+
+/**
+ * Whether a digest is due in the hour starting at `now`
+ */
+export function isDigestDue(schedule: FeedSchedule, now: Date): boolean {
+	return schedule.hour === now.getUTCHours() && (!schedule.days || schedule.days.includes(now.getUTCDay()));
+}
@@ -0,0 +1,363 @@
+// Server-side fetching of remote documents for send-by-URL and feeds
+
+import { DEFAULT_MAX_FILE_SIZE } from "./validation";
+import { pageToEpub } from "./newsletter";
+
+const MAX_REDIRECTS = 5;
+const DNS_OVER_HTTPS_URL = "https://cloudflare-dns.com/dns-query";
+
+const SUPPORTED_TYPES: Record<string, string> = {
+	"application/pdf": ".pdf",
+	"application/epub+zip": ".epub",
+};
+const PAGE_TYPES = ["text/html", "application/xhtml+xml"];
+
+export interface FetchDocumentSuccess {
+	success: true;
+	file: File;
+}
+
+export interface FetchDocumentError {
+	success: false;
+	error: string;
+}
+
+/**
+ * The four bytes of a dotted-quad IPv4 address, or null if it isn't one
+ */
+function parseIpv4(text: string): number[] | null {
+	const parts = text.split(".");
+	if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+		return null;
+	}
+	return parts.map(Number);
+}
+
+/**
+ * The sixteen bytes of an IPv6 address, including the forms ending in a dotted quad and
+ * those with `::`, or null if it isn't one
+ */
+function parseIpv6(text: string): number[] | null {
+	const halves = text.split("::");
+	if (halves.length > 2) {
+		return null;
+	}
+
+	const parseGroups = (part: string, last: boolean): number[] | null => {
+		if (!part) {
+			return [];
+		}
+		const bytes: number[] = [];
+		const groups = part.split(":");
+		for (const [i, group] of groups.entries()) {
+			if (last && i === groups.length - 1 && group.includes(".")) {
+				const ipv4 = parseIpv4(group);
+				if (!ipv4) {
+					return null;
+				}
+				bytes.push(...ipv4);
+			} else if (/^[0-9a-f]{1,4}$/.test(group)) {
+				const value = parseInt(group, 16);
+				bytes.push(value >> 8, value & 0xff);
+			} else {
+				return null;
+			}
+		}
+		return bytes;
+	};
+
+	const head = parseGroups(halves[0], halves.length === 1);
+	const tail = halves.length === 2 ? parseGroups(halves[1], true) : [];
+	if (!head || !tail) {
+		return null;
+	}
+	const missing = 16 - head.length - tail.length;
+	if (halves.length === 2 ? missing < 2 : missing !== 0) {
+		return null;
+	}
+	return [...head, ...new Array(missing).fill(0), ...tail];
+}
+
+function isPrivateIpv4([a, b, c]: number[]): boolean {
+	return a === 0
+		|| a === 10
+		|| a === 127
+		|| (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+		|| (a === 169 && b === 254)
+		|| (a === 172 && b >= 16 && b <= 31)
+		|| (a === 192 && b === 0 && c === 0) // IETF protocol assignments
+		|| (a === 192 && b === 0 && c === 2) // Documentation, also 198.51.100.0/24 and 203.0.113.0/24
+		|| (a === 192 && b === 168)
+		|| (a === 198 && (b === 18 || b === 19))
+		|| (a === 198 && b === 51 && c === 100)
+		|| (a === 203 && b === 0 && c === 113)
+		|| a >= 224;
+}
+
+/**
+ * Check whether an IPv4 or IPv6 address is loopback, private, link-local or otherwise not publicly
+ * routable. IPv6 addresses carrying an IPv4 address (mapped, compatible, NAT64 and 6to4) are judged
+ * by it, and Teredo addresses are refused outright.
+ * Anything that looks like an IPv6 address but doesn't parse is treated as private.
+ */
+export function isPrivateAddress(address: string): boolean {
+	const ip = address.replace(/^\[|\]$/g, "").toLowerCase();
+
+	const ipv4 = parseIpv4(ip);
+	if (ipv4) {
+		return isPrivateIpv4(ipv4);
+	}
+	if (!ip.includes(":")) {
+		return false;
+	}
+
+	const bytes = parseIpv6(ip.replace(/%.*$/, ""));
+	if (!bytes) {
+		return true;
+	}
+	const prefix = (...values: number[]) => values.every((value, i) => bytes[i] === value);
+	const zeros = (count: number) => new Array(count).fill(0);
+
+	if (prefix(...zeros(10), 0xff, 0xff) // IPv4-mapped, ::ffff:0:0/96
+		|| prefix(...zeros(12)) // IPv4-compatible, ::/96, which includes :: and ::1
+		|| prefix(0x00, 0x64, 0xff, 0x9b, ...zeros(8))) { // NAT64, 64:ff9b::/96
+		return isPrivateIpv4(bytes.slice(12));
+	}
+	if (prefix(0x20, 0x02)) { // 6to4, 2002::/16, with the IPv4 address after the prefix
+		return isPrivateIpv4(bytes.slice(2, 6));
+	}
+	return prefix(0x20, 0x01, 0x00, 0x00) // Teredo, 2001::/32, which tunnels to an obfuscated IPv4 address
+		|| prefix(0x00, 0x64, 0xff, 0x9b, 0x00, 0x01) // Local-use NAT64, 64:ff9b:1::/48
+		|| (bytes[0] & 0xfe) === 0xfc // Unique local, fc00::/7
+		|| (bytes[0] === 0xfe && (bytes[1] & 0xc0) === 0x80) // Link-local, fe80::/10
+		|| bytes[0] === 0xff; // Multicast
+}
+
+/**
+ * Resolve a hostname through DNS-over-HTTPS, returning its A and AAAA records
+ */
+async function resolveHost(hostname: string): Promise<string[]> {
+	const addresses: string[] = [];
+	for (const type of ["A", "AAAA"]) {
+		const response = await fetch(`${DNS_OVER_HTTPS_URL}?name=${encodeURIComponent(hostname)}&type=${type}`, {
+			headers: { "accept": "application/dns-json" },
+		});
+		if (!response.ok) {
+			throw new Error(`DNS lookup failed (response code): ${response.status}`);
+		}
+		const data: { Answer?: { type: number; data: string }[] } = await response.json();
+		for (const answer of data.Answer || []) {
+			// 1 = A, 28 = AAAA; CNAMEs in the chain are followed by the resolver
+			if (answer.type === 1 || answer.type === 28) {
+				addresses.push(answer.data);
+			}
+		}
+	}
+	return addresses;
+}
+
+/**
+ * Make sure a URL is safe to fetch: http(s) only, no credentials, and not pointing at a private address.
+ *
+ * The hostname is resolved here and again by fetch(), which can't be told to connect to an address
+ * we picked while still using the hostname for TLS. A DNS server that answers with a public address
+ * first and a private one the second time (DNS rebinding) gets past this check; what stops it is
+ * that a Worker's fetch() doesn't reach private networks in the first place.
+ */
+export async function checkUrl(url: URL): Promise<string | null> {
+	if (url.protocol !== "https:" && url.protocol !== "http:") {
+		return `Unsupported URL scheme: ${url.protocol}`;
+	}
+	if (url.username || url.password) {
+		return "URLs with credentials are not allowed";
+	}
+
+	const hostname = url.hostname.toLowerCase();
+	if (hostname === "localhost" || hostname.endsWith(".localhost") || hostname.endsWith(".local") || hostname.endsWith(".internal")) {
+		return `Refusing to fetch from private host: ${hostname}`;
+	}
+
+	const isIpLiteral = /^\d+\.\d+\.\d+\.\d+$/.test(hostname) || hostname.startsWith("[");
+	const addresses = isIpLiteral ? [hostname] : await resolveHost(hostname);
+	if (addresses.length === 0) {
+		return `Could not resolve host: ${hostname}`;
+	}
+	if (addresses.some(isPrivateAddress)) {
+		return `Refusing to fetch from private address: ${hostname}`;
+	}
+
+	return null;
+}
+
+/**
+ * Work out a filename from the Content-Disposition header, falling back to the last URL path segment
+ */
+export function filenameFromResponse(url: URL, contentDisposition: string | null, extension: string): string {
+	let name: string | undefined;
+
+	if (contentDisposition) {
+		const encoded = contentDisposition.match(/filename\*\s*=\s*(?:UTF-8|utf-8)''([^;]+)/);
+		const plain = contentDisposition.match(/filename\s*=\s*"([^"]+)"|filename\s*=\s*([^;\s]+)/);
+		try {
+			name = encoded ? decodeURIComponent(encoded[1].trim()) : (plain?.[1] || plain?.[2]);
+		} catch {
+			name = plain?.[1] || plain?.[2];
+		}
+	}
+
+	if (!name) {
+		const segment = url.pathname.split("/").filter(Boolean).pop();
+		try {
+			name = segment ? decodeURIComponent(segment) : undefined;
+		} catch {
+			name = segment;
+		}
+	}
+
+	name = (name || url.hostname).replace(/[\/\\]/g, "_").trim();
+	return name.toLowerCase().endsWith(extension) ? name : `${name}${extension}`;
+}
+
+/**
+ * Read a response body, giving up once it grows past the size limit
+ */
+export async function readLimited(response: Response, limit: number = DEFAULT_MAX_FILE_SIZE): Promise<Uint8Array | null> {
+	if (!response.body) {
+		return new Uint8Array(0);
+	}
+
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+	const reader = response.body.getReader();
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		total += value.byteLength;
+		if (total > limit) {
+			await reader.cancel();
+			return null;
+		}
+		chunks.push(value);
+	}
+
+	const result = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return result;
+}
+
+export type FetchPublicResult =
+	| { success: true; response: Response; url: URL }
+	| { success: false; error: string };
+
+/**
+ * Fetch a URL, following a limited number of redirects and refusing to talk to
+ * private addresses along the way. Returns the final response and its URL.
+ */
+export async function fetchPublic(rawUrl: string, accept: string): Promise<FetchPublicResult> {
+	let url: URL;
+	try {
+		url = new URL(rawUrl);
+	} catch {
+		return { success: false, error: `Invalid URL: ${rawUrl}` };
+	}
+
+	for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+		const urlError = await checkUrl(url);
+		if (urlError) {
+			return { success: false, error: urlError };
+		}
+
+		console.log(`Fetching ${url.toString()}`);
+		const response = await fetch(url.toString(), {
+			redirect: "manual",
+			headers: { "accept": accept },
+		});
+
+		const location = response.headers.get("location");
+		if (response.status >= 300 && response.status < 400 && location) {
+			url = new URL(location, url);
+			continue;
+		}
+		return { success: true, response, url };
+	}
+
+	return { success: false, error: `Too many redirects (more than ${MAX_REDIRECTS})` };
+}
+
+/**
+ * Fetch a PDF or EPUB from a URL, see `fetchPublic`. With `convertPages`, a web page
+ * is turned into an EPUB of its text instead of being rejected.
+ */
+export async function fetchDocument(rawUrl: string, convertPages = false): Promise<FetchDocumentSuccess | FetchDocumentError> {
+	const accept = [...Object.keys(SUPPORTED_TYPES), ...(convertPages ? PAGE_TYPES : [])].join(", ");
+	const fetched = await fetchPublic(rawUrl, accept);
+	if (!fetched.success) {
+		return fetched;
+	}
+
+	const { response, url } = fetched;
+	if (!response.ok) {
+		return { success: false, error: `Failed to fetch document (response code): ${response.status}` };
+	}
+
+	// Some servers send documents as octet-stream, so fall back to the URL's extension
+	let contentType = (response.headers.get("content-type") || "").split(";")[0].trim().toLowerCase();
+	if (convertPages && PAGE_TYPES.includes(contentType)) {
+		const content = await readLimited(response);
+		if (!content) {
+			return { success: false, error: `Page is too large (over ${DEFAULT_MAX_FILE_SIZE} bytes)` };
+		}
+		return { success: true, file: pageToEpub(decodeText(content, response.headers.get("content-type")), url) };
+	}
+	if (!SUPPORTED_TYPES[contentType]) {
+		const path = url.pathname.toLowerCase();
+		const byExtension = Object.entries(SUPPORTED_TYPES).find(([, extension]) => path.endsWith(extension));
+		if (contentType !== "application/octet-stream" || !byExtension) {
+			return { success: false, error: `Unsupported content type: ${contentType || "unknown"}` };
+		}
+		contentType = byExtension[0];
+	}
+
+	const contentLength = Number(response.headers.get("content-length"));
+	if (contentLength > DEFAULT_MAX_FILE_SIZE) {
+		return { success: false, error: `Document is too large (${contentLength} bytes)` };
+	}
+
+	const content = await readLimited(response);
+	if (!content) {
+		return { success: false, error: `Document is too large (over ${DEFAULT_MAX_FILE_SIZE} bytes)` };
+	}
+
+	const fileName = filenameFromResponse(url, response.headers.get("content-disposition"), SUPPORTED_TYPES[contentType]);
+	return {
+		success: true,
+		file: new File([content], fileName, { type: contentType }),
+	};
+}
+
+/**
+ * Decode text in the charset named by its content type, falling back to UTF-8
+ */
+function decodeText(content: Uint8Array, contentType: string | null): string {
+	const charset = contentType?.match(/charset=["']?([^"';\s]+)/i)?.[1];
+	try {
+		return new TextDecoder(charset || "utf-8").decode(content);
+	} catch {
+		return new TextDecoder().decode(content);
+	}
+}
+
+/**
+ * Find bare http(s) links in a plain-text body
+ */
+export function extractLinks(text: string): string[] {
+	const links = text.match(/https?:\/\/[^\s<>"']+/g) || [];
+	// Trailing punctuation usually belongs to the sentence, not the link
+	return [...new Set(links.map((link) => link.replace(/[.,;:!?)\]]+$/, "")))];
+}
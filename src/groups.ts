@@ -0,0 +1,325 @@
+// Distribution groups: one email address or upload target delivering to several accounts
+
+import type { Email } from "postal-mime";
+import { AccountSettings, Group, GroupDelivery, GroupMemberDelivery, GroupSummary } from "./types";
+import type { AuthDO } from "./auth-do";
+import { generateAlias, generateApiToken, hashApiToken } from "./api-auth";
+import { getRegistry } from "./registry-do";
+import { admitUpload, checkAccount, prepareDocument, queueUpload, storeDocument, UploadFailure, UploadOptions } from "./upload-utils";
+import { DEFAULT_MAX_FILE_SIZE } from "./validation";
+import { sha256Hex } from "./crypto-utils";
+import { checkSender, normalizeSenderEntry } from "./sender-auth";
+import { parseSubjectDirectives } from "./directives";
+import { expandArchives } from "./archive";
+import { isInlineImage } from "./newsletter";
+import { mergeDocuments } from "./pdf";
+import { DEFAULT_NAMING_TEMPLATE, nameAttachments } from "./naming";
+
+export const MAX_GROUP_MEMBERS = 20;
+const GROUP_NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export type GroupValidation =
+	| { success: true; name?: string; members?: string[]; allowedSenders?: string[] }
+	| { success: false; error: string };
+
+export type GroupUploadResult =
+	| { success: true; fileId: string; fileName: string; members: GroupMemberDelivery[] }
+	| UploadFailure;
+
+/**
+ * Validate a request to create a group (which needs a name and members) or to change one.
+ * Sender entries are normalised like an account's allowlist.
+ */
+export function validateGroupRequest(body: unknown, creating: boolean): GroupValidation {
+	if (typeof body !== "object" || body === null || Array.isArray(body)) {
+		return { success: false, error: "Group must be a JSON object" };
+	}
+	const { name, members, senders } = body as Record<string, unknown>;
+
+	if (creating && (typeof name !== "string" || !GROUP_NAME_PATTERN.test(name))) {
+		return { success: false, error: "name must be 1 to 40 lowercase letters, digits and dashes" };
+	}
+	if ((creating || members !== undefined) && (
+		!Array.isArray(members)
+		|| members.length === 0
+		|| members.length > MAX_GROUP_MEMBERS
+		|| !members.every((member) => typeof member === "string" && member.trim())
+	)) {
+		return { success: false, error: `members must be a list of 1 to ${MAX_GROUP_MEMBERS} auth IDs` };
+	}
+
+	let allowedSenders: string[] | undefined;
+	if (senders !== undefined) {
+		if (!Array.isArray(senders)) {
+			return { success: false, error: "senders must be a list of email addresses and domains" };
+		}
+		allowedSenders = [];
+		for (const sender of senders) {
+			const normalized = typeof sender === "string" ? normalizeSenderEntry(sender) : null;
+			if (!normalized) {
+				return { success: false, error: `Invalid sender: ${sender}` };
+			}
+			allowedSenders.push(normalized);
+		}
+	}
+
+	return {
+		success: true,
+		name: creating ? name as string : undefined,
+		members: members === undefined ? undefined : [...new Set((members as string[]).map((member) => member.trim()))],
+		allowedSenders: allowedSenders && [...new Set(allowedSenders)],
+	};
+}
+
+/**
+ * The members that aren't known accounts
+ */
+export async function unknownMembers(env: Env, members: string[]): Promise<string[]> {
+	const accounts = new Set(await getRegistry(env).listAccounts());
+	return members.filter((member) => !accounts.has(member));
+}
+
+/**
+ * A group as shown to the operator, without its token hash
+ */
+export function groupSummary(group: Group): GroupSummary {
+	const { tokenHash: _tokenHash, ...summary } = group;
+	return summary;
+}
+
+/**
+ * Create a group with a new email alias and API token, retrying on the rare alias collision.
+ * Returns null if a group with the name already exists.
+ */
+export async function createGroup(env: Env, name: string, members: string[], allowedSenders: string[] = []): Promise<{ group: Group; token: string } | null> {
+	const registry = getRegistry(env);
+	if (await registry.getGroup(name)) {
+		return null;
+	}
+
+	const token = generateApiToken();
+	for (let attempt = 0; attempt < 5; attempt++) {
+		const group: Group = {
+			name,
+			members,
+			alias: generateAlias(),
+			tokenHash: await hashApiToken(token),
+			allowedSenders,
+			createdAt: new Date().toISOString(),
+		};
+		if (await registry.createGroup(group)) {
+			return { group, token };
+		}
+		if (await registry.getGroup(name)) {
+			return null;
+		}
+	}
+	throw new Error("Failed to generate a unique email alias");
+}
+
+/**
+ * The largest file any member of a group accepts, to prepare documents for the group as a whole
+ * before each member's own limit is checked
+ */
+export async function groupMaxFileSize(env: Env, group: Group): Promise<number> {
+	const sizes = await Promise.all(group.members.map(async (authId) => {
+		const settings = await env.AUTH_DO.get(env.AUTH_DO.idFromName(authId)).getSettings();
+		return settings.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+	}));
+	return Math.max(...sizes);
+}
+
+/**
+ * Upload a document to every member of a group. The document is stored in R2 once and each member
+ * gets their own workflow, after the same checks as an upload to their account alone: suspension,
+ * file size limit, duplicates and quota. A member turned away doesn't stop the others.
+ */
+export async function uploadToGroup(
+	env: Env,
+	file: File,
+	group: Group,
+	email?: string,
+	options: UploadOptions = {}
+): Promise<GroupUploadResult> {
+	console.log(`Starting group upload: ${file.name}, size: ${file.size} bytes, group: ${group.name} (${group.members.length} members)`);
+
+	const source = email || options.source || 'web-upload';
+	const prepared = await prepareDocument(file, await groupMaxFileSize(env, group), options);
+	if (!prepared.success) {
+		return prepared;
+	}
+	file = prepared.file;
+	const documentName = prepared.documentName;
+
+	const sha256 = await sha256Hex(await file.arrayBuffer());
+	const fileId = await storeDocument(env, file, source, sha256, { group: group.name });
+
+	const members: GroupMemberDelivery[] = [];
+	const admitted: { delivery: GroupMemberDelivery; authDoStub: DurableObjectStub<AuthDO>; settings: AccountSettings; chargedAt: number }[] = [];
+	for (const authId of group.members) {
+		const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authId));
+		try {
+			const refusal = await checkAccount(authDoStub, authId, documentName);
+			if (refusal) {
+				members.push({ authId, status: "rejected", error: refusal.error });
+				continue;
+			}
+
+			const settings = await authDoStub.getSettings();
+			const maxFileSize = settings.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+			if (file.size > maxFileSize) {
+				members.push({ authId, status: "rejected", error: `"${file.name}" is ${file.size} bytes, over the limit of ${maxFileSize} bytes` });
+				continue;
+			}
+
+			const chargedAt = Date.now();
+			const admission = await admitUpload(authDoStub, authId, settings, file, documentName, sha256, email);
+			if (admission) {
+				members.push(admission.success
+					? { authId, status: "duplicate", fileId: admission.fileId }
+					: { authId, status: "rejected", error: admission.error });
+				continue;
+			}
+
+			const delivery: GroupMemberDelivery = { authId, status: "queued", fileId };
+			members.push(delivery);
+			admitted.push({ delivery, authDoStub, settings, chargedAt });
+		} catch (error) {
+			members.push({ authId, status: "rejected", error: error instanceof Error ? error.message : String(error) });
+		}
+	}
+
+	// Every member's workflow releases its share of the file when done, and the last one deletes it
+	const registry = getRegistry(env);
+	if (admitted.length === 0) {
+		await env.DOCUMENT_STORAGE.delete(fileId);
+	} else {
+		try {
+			await registry.shareFile(fileId, admitted.map(({ delivery }) => delivery.authId));
+		} catch (error) {
+			// Nothing was queued, so the members' quota is given back
+			for (const { authDoStub, chargedAt } of admitted) {
+				await authDoStub.refundQuota(file.size, chargedAt);
+			}
+			throw error;
+		}
+	}
+
+	for (const { delivery, authDoStub, settings, chargedAt } of admitted) {
+		try {
+			await queueUpload(env, authDoStub, settings, { fileId, fileName: documentName, authDoId: delivery.authId, email, group: group.name }, source, sha256, options);
+		} catch (error) {
+			console.error(`Failed to queue ${documentName} for ${delivery.authId} in group ${group.name}:`, error);
+			delivery.status = "failed";
+			delivery.error = error instanceof Error ? error.message : String(error);
+			await authDoStub.refundQuota(file.size, chargedAt);
+			if (await registry.releaseFile(fileId, delivery.authId)) {
+				await env.DOCUMENT_STORAGE.delete(fileId);
+			}
+		}
+	}
+
+	await registry.recordGroupDelivery(group.name, {
+		fileId,
+		fileName: documentName,
+		source,
+		createdAt: new Date().toISOString(),
+		members,
+	});
+	console.log(`Group upload of ${documentName} queued for ${admitted.length} of ${group.members.length} members`);
+
+	return { success: true, fileId, fileName: documentName, members };
+}
+
+/**
+ * Whether a group upload reached at least one member, counting a document they already had
+ */
+export function deliveredToAnyone(members: GroupMemberDelivery[]): boolean {
+	return members.some((member) => member.status === "queued" || member.status === "duplicate");
+}
+
+/**
+ * Add each member's current upload state to a group's deliveries
+ */
+export async function deliveryProgress(env: Env, deliveries: GroupDelivery[]) {
+	return await Promise.all(deliveries.map(async (delivery) => ({
+		...delivery,
+		members: await Promise.all(delivery.members.map(async (member) => {
+			if (!member.fileId) {
+				return member;
+			}
+			const upload = await env.AUTH_DO.get(env.AUTH_DO.idFromName(member.authId)).getUpload(member.fileId);
+			return { ...member, state: upload?.state, error: member.error || upload?.error };
+		})),
+	})));
+}
+
+/**
+ * Deliver the attachments of an email sent to a group's address. Subject directives work as for
+ * an account; links and message bodies aren't fetched or converted. Archives are expanded without
+ * their folders, whatever the members' archiveFolders settings. Returns the reason to bounce the
+ * email, or null once at least one document reached a member.
+ */
+export async function emailGroup(env: Env, group: Group, email: Email, addressFolder?: string): Promise<string | null> {
+	if (!email.from?.address) {
+		return "Email must have a 'from' address";
+	}
+
+	const senderCheck = checkSender(email.headers, email.from.address, group.allowedSenders);
+	if (!senderCheck.allowed) {
+		return `Sender not allowed: ${senderCheck.reason}`;
+	}
+
+	const { subject, directives, problems } = parseSubjectDirectives(email.subject || "");
+	if (problems.length > 0) {
+		return `Invalid subject directives: ${problems.join("; ")}`;
+	}
+
+	const attachments = (email.attachments || []).filter((attachment) => !isInlineImage(attachment));
+	if (attachments.length === 0) {
+		return "Emails to a group must have the documents attached";
+	}
+
+	const files = attachments.map((attachment) => new File([attachment.content], attachment.filename || "attachment", {
+		type: attachment.mimeType || "application/octet-stream"
+	}));
+	const expansion = await expandArchives(files, false, await groupMaxFileSize(env, group));
+	if (directives.merge) {
+		try {
+			expansion.documents = await mergeDocuments(expansion.documents);
+		} catch (error) {
+			return `Could not merge the attachments: ${error instanceof Error ? error.message : String(error)}`;
+		}
+	}
+
+	const names = nameAttachments(
+		directives.name?.replace(/[{}]/g, "") || DEFAULT_NAMING_TEMPLATE,
+		{ subject, sender: email.from.name || email.from.address, date: email.date ? new Date(email.date) : undefined },
+		expansion.documents.map((document) => document.file.name),
+	);
+	const rejections = expansion.failures.map((failure) => failure.error);
+	let delivered = 0;
+	for (const [i, document] of expansion.documents.entries()) {
+		const result = await uploadToGroup(env, document.file, group, email.from.address, {
+			folder: directives.folder || addressFolder,
+			name: names[i],
+			subfolder: document.subfolder,
+			pages: directives.pages,
+		});
+		if (!result.success) {
+			rejections.push(`${document.file.name}: ${result.error}`);
+		} else if (!deliveredToAnyone(result.members)) {
+			rejections.push(`${document.file.name}: ${result.members.map((member) => member.error).join(", ")}`);
+		} else {
+			delivered++;
+		}
+	}
+
+	if (delivered === 0) {
+		return `No supported attachments (${rejections.join("; ")})`;
+	}
+	if (rejections.length > 0) {
+		console.log(`Some attachments to group ${group.name} were dropped:`, rejections);
+	}
+	return null;
+}
@@ -0,0 +1,237 @@
+// Turn arbitrary (email) HTML into a well-formed XHTML fragment suitable for an EPUB
+
+// Elements whose content is dropped entirely
+const DROPPED_ELEMENTS = ["head", "script", "style", "noscript", "template", "iframe", "object", "embed", "svg", "math", "title", "select", "textarea", "button"];
+
+// Elements kept as-is, with the attributes allowed on each
+const ALLOWED_ELEMENTS: Record<string, string[]> = {
+	a: ["href", "title"],
+	abbr: ["title"],
+	b: [],
+	blockquote: [],
+	br: [],
+	caption: [],
+	code: [],
+	dd: [],
+	del: [],
+	div: [],
+	dl: [],
+	dt: [],
+	em: [],
+	figcaption: [],
+	figure: [],
+	h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+	hr: [],
+	i: [],
+	img: ["src", "alt", "width", "height"],
+	ins: [],
+	li: [],
+	ol: [],
+	p: [],
+	pre: [],
+	q: [],
+	s: [],
+	small: [],
+	span: [],
+	strong: [],
+	sub: [],
+	sup: [],
+	table: [],
+	tbody: [],
+	td: ["colspan", "rowspan"],
+	tfoot: [],
+	th: ["colspan", "rowspan"],
+	thead: [],
+	tr: [],
+	u: [],
+	ul: [],
+};
+
+// Elements with no content, written as self-closing tags
+const VOID_ELEMENTS = ["br", "hr", "img"];
+
+// Structural HTML elements that are mapped onto an allowed equivalent
+const ELEMENT_ALIASES: Record<string, string> = {
+	article: "div",
+	aside: "div",
+	center: "div",
+	footer: "div",
+	header: "div",
+	main: "div",
+	nav: "div",
+	section: "div",
+	font: "span",
+	strike: "s",
+	tt: "code",
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: "\u00a0",
+	copy: "\u00a9", reg: "\u00ae", trade: "\u2122", hellip: "\u2026",
+	mdash: "\u2014", ndash: "\u2013", lsquo: "\u2018", rsquo: "\u2019",
+	ldquo: "\u201c", rdquo: "\u201d", laquo: "\u00ab", raquo: "\u00bb",
+	bull: "\u2022", middot: "\u00b7", euro: "\u20ac", pound: "\u00a3",
+	yen: "\u00a5", cent: "\u00a2", deg: "\u00b0", times: "\u00d7",
+	shy: "\u00ad", zwnj: "\u200c", zwj: "\u200d", thinsp: "\u2009",
+	ensp: "\u2002", emsp: "\u2003",
+};
+
+/**
+ * Decode HTML character references. Unknown named references are left as written.
+ */
+export function decodeEntities(text: string): string {
+	return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+		if (entity[0] === "#") {
+			const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+			try {
+				return String.fromCodePoint(code);
+			} catch {
+				return match;
+			}
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+}
+
+/**
+ * Escape text for use in XML content or attribute values, dropping characters XML doesn't allow
+ */
+export function escapeXml(text: string): string {
+	return text
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+/**
+ * Parse the attributes of an HTML start tag
+ */
+export function parseAttributes(source: string): Record<string, string> {
+	const attributes: Record<string, string> = {};
+	const pattern = /([^\s=\/>"']+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(source))) {
+		const name = match[1].toLowerCase();
+		if (!(name in attributes)) {
+			attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+		}
+	}
+	return attributes;
+}
+
+/**
+ * Convert HTML into a balanced XHTML fragment containing only a safe subset of elements.
+ * `resolveImage` maps an image `src` to its location inside the EPUB, or null to drop the image.
+ */
+export function htmlToXhtml(html: string, resolveImage: (src: string) => string | null): string {
+	// Only the body matters; strip comments, CDATA and doctype up front
+	const bodyMatch = html.match(/<body[^>]*>([\s\S]*?)(?:<\/body>|$)/i);
+	let source = (bodyMatch ? bodyMatch[1] : html)
+		.replace(/<!--[\s\S]*?-->/g, "")
+		.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, "")
+		.replace(/<![^>]*>/g, "");
+
+	for (const element of DROPPED_ELEMENTS) {
+		source = source.replace(new RegExp(`<${element}\\b[^>]*>[\\s\\S]*?<\\/${element}\\s*>`, "gi"), "");
+	}
+
+	const output: string[] = [];
+	const stack: string[] = [];
+	const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)\b((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+
+	const writeText = (text: string) => {
+		if (text) {
+			output.push(escapeXml(decodeEntities(text)));
+		}
+	};
+
+	while ((match = tagPattern.exec(source))) {
+		writeText(source.slice(lastIndex, match.index));
+		lastIndex = tagPattern.lastIndex;
+
+		const closing = match[1] === "/";
+		const rawName = match[2].toLowerCase();
+		const name = ELEMENT_ALIASES[rawName] || rawName;
+
+		if (!(name in ALLOWED_ELEMENTS)) {
+			// Unknown elements disappear but their content stays
+			continue;
+		}
+
+		if (closing) {
+			const index = stack.lastIndexOf(name);
+			if (index === -1) {
+				continue;
+			}
+			while (stack.length > index) {
+				output.push(`</${stack.pop()}>`);
+			}
+			continue;
+		}
+
+		const attributes = parseAttributes(match[3]);
+		const kept: string[] = [];
+		for (const attribute of ALLOWED_ELEMENTS[name]) {
+			let value = attributes[attribute];
+			if (value === undefined) {
+				continue;
+			}
+			if (attribute === "href" && !/^(https?:|mailto:)/i.test(value.trim())) {
+				continue;
+			}
+			if (attribute === "src") {
+				const resolved = resolveImage(value.trim());
+				if (!resolved) {
+					continue;
+				}
+				value = resolved;
+			}
+			if ((attribute === "width" || attribute === "height" || attribute === "colspan" || attribute === "rowspan") && !/^\d+$/.test(value)) {
+				continue;
+			}
+			kept.push(` ${attribute}="${escapeXml(value)}"`);
+		}
+
+		if (name === "img") {
+			// Images we can't embed are replaced by their alt text
+			if (!kept.some((attribute) => attribute.startsWith(" src="))) {
+				writeText(attributes.alt || "");
+				continue;
+			}
+			if (!("alt" in attributes)) {
+				kept.push(` alt=""`);
+			}
+		}
+
+		if (VOID_ELEMENTS.includes(name)) {
+			output.push(`<${name}${kept.join("")}/>`);
+		} else {
+			output.push(`<${name}${kept.join("")}>`);
+			stack.push(name);
+		}
+	}
+
+	writeText(source.slice(lastIndex));
+	while (stack.length > 0) {
+		output.push(`</${stack.pop()}>`);
+	}
+
+	return output.join("");
+}
+
+/**
+ * Convert a plain-text body into XHTML paragraphs
+ */
+export function textToXhtml(text: string): string {
+	return text
+		.replace(/\r\n/g, "\n")
+		.split(/\n\s*\n/)
+		.map((paragraph) => paragraph.trim())
+		.filter((paragraph) => paragraph.length > 0)
+		.map((paragraph) => `<p>${paragraph.split("\n").map(escapeXml).join("<br/>")}</p>`)
+		.join("\n");
+}
@@ -0,0 +1,396 @@
+// Wrapping JPEG and PNG images (photos of whiteboards, scanned pages) into PDFs the tablet accepts
+
+import type { ExpandedDocument } from "./archive";
+
+export type ImageType = "image/jpeg" | "image/png";
+
+// The reMarkable screen is 1404 x 1872 pixels at 226 DPI, so pages keep its 3:4 ratio
+const PAGE_WIDTH = 1404 * 72 / 226;
+const PAGE_HEIGHT = 1872 * 72 / 226;
+
+interface PdfImage {
+	width: number;
+	height: number;
+	// EXIF orientation, 1 to 8
+	orientation: number;
+	// The image XObject's dictionary entries (without /Length) and stream data
+	dictionary: string;
+	data: Uint8Array;
+	// Alpha channel for PNGs with transparency
+	mask?: { dictionary: string; data: Uint8Array };
+}
+
+/**
+ * Detect a JPEG or PNG from the first bytes of a file
+ */
+export function sniffImageType(bytes: Uint8Array): ImageType | null {
+	if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+		return "image/jpeg";
+	}
+	if (bytes.length >= 8 && [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a].every((byte, i) => bytes[i] === byte)) {
+		return "image/png";
+	}
+	return null;
+}
+
+/**
+ * Check whether a file is an image that can be converted
+ */
+export async function isImage(file: File): Promise<boolean> {
+	return sniffImageType(new Uint8Array(await file.slice(0, 8).arrayBuffer())) !== null;
+}
+
+/**
+ * Read the orientation tag from a JPEG's EXIF data, defaulting to 1 (upright)
+ */
+function exifOrientation(bytes: Uint8Array, start: number, length: number): number {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const end = start + length;
+	// "Exif\0\0" then a TIFF header
+	if (length < 14 || view.getUint32(start) !== 0x45786966 || view.getUint16(start + 4) !== 0) {
+		return 1;
+	}
+	const tiff = start + 6;
+	const little = view.getUint16(tiff) === 0x4949;
+	const ifd = tiff + view.getUint32(tiff + 4, little);
+	if (ifd + 2 > end) {
+		return 1;
+	}
+	const count = view.getUint16(ifd, little);
+	for (let i = 0; i < count; i++) {
+		const entry = ifd + 2 + i * 12;
+		if (entry + 12 > end) {
+			break;
+		}
+		if (view.getUint16(entry, little) === 0x0112) {
+			const orientation = view.getUint16(entry + 8, little);
+			return orientation >= 1 && orientation <= 8 ? orientation : 1;
+		}
+	}
+	return 1;
+}
+
+/**
+ * Read a JPEG's dimensions, components and orientation. The data is embedded as is (DCTDecode).
+ */
+function readJpeg(bytes: Uint8Array): PdfImage {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let orientation = 1;
+	let adobe = false;
+	let offset = 2;
+
+	while (offset + 4 <= bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			throw new Error("Corrupt JPEG");
+		}
+		const marker = bytes[offset + 1];
+		// Fill bytes and markers without a length
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+			offset += 2;
+			continue;
+		}
+
+		const length = view.getUint16(offset + 2);
+		if (marker === 0xe1) {
+			orientation = exifOrientation(bytes, offset + 4, length - 2);
+		} else if (marker === 0xee) {
+			adobe = true;
+		} else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			// Start of frame: precision, height, width, components
+			const height = view.getUint16(offset + 5);
+			const width = view.getUint16(offset + 7);
+			const components = bytes[offset + 9];
+			const colorSpace = components === 1 ? "/DeviceGray" : components === 4 ? "/DeviceCMYK" : "/DeviceRGB";
+			// Adobe writes CMYK JPEGs inverted
+			const decode = components === 4 && adobe ? " /Decode [1 0 1 0 1 0 1 0]" : "";
+			return {
+				width,
+				height,
+				orientation,
+				dictionary: `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode${decode}`,
+				data: bytes,
+			};
+		}
+		offset += 2 + length;
+	}
+
+	throw new Error("Corrupt JPEG (no image size found)");
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+	return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(stream)).arrayBuffer());
+}
+
+/**
+ * Undo PNG's per-row filters, returning the raw pixel rows
+ */
+export function unfilterPng(data: Uint8Array, width: number, height: number, bytesPerPixel: number): Uint8Array {
+	const rowLength = width * bytesPerPixel;
+	const pixels = new Uint8Array(rowLength * height);
+	for (let y = 0; y < height; y++) {
+		const filter = data[y * (rowLength + 1)];
+		const source = y * (rowLength + 1) + 1;
+		const row = y * rowLength;
+		const previous = row - rowLength;
+		for (let x = 0; x < rowLength; x++) {
+			const left = x >= bytesPerPixel ? pixels[row + x - bytesPerPixel] : 0;
+			const up = y > 0 ? pixels[previous + x] : 0;
+			const upLeft = y > 0 && x >= bytesPerPixel ? pixels[previous + x - bytesPerPixel] : 0;
+			let predictor = 0;
+			if (filter === 1) {
+				predictor = left;
+			} else if (filter === 2) {
+				predictor = up;
+			} else if (filter === 3) {
+				predictor = (left + up) >> 1;
+			} else if (filter === 4) {
+				const p = left + up - upLeft;
+				const pa = Math.abs(p - left);
+				const pb = Math.abs(p - up);
+				const pc = Math.abs(p - upLeft);
+				predictor = pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+			}
+			pixels[row + x] = (data[source + x] + predictor) & 0xff;
+		}
+	}
+	return pixels;
+}
+
+/**
+ * Read a PNG. Opaque images keep their compressed data (PDF understands PNG predictors);
+ * images with an alpha channel are decoded so the alpha can become a soft mask.
+ */
+async function readPng(bytes: Uint8Array): Promise<PdfImage> {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0;
+	let palette: Uint8Array | null = null;
+	const idat: Uint8Array[] = [];
+
+	let offset = 8;
+	while (offset + 8 <= bytes.length) {
+		const length = view.getUint32(offset);
+		const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+		const data = bytes.subarray(offset + 8, offset + 8 + length);
+		if (type === "IHDR") {
+			width = view.getUint32(offset + 8);
+			height = view.getUint32(offset + 12);
+			bitDepth = data[8];
+			colorType = data[9];
+			interlace = data[12];
+		} else if (type === "PLTE") {
+			palette = data;
+		} else if (type === "IDAT") {
+			idat.push(data);
+		} else if (type === "IEND") {
+			break;
+		}
+		offset += 12 + length;
+	}
+
+	if (!width || !height || idat.length === 0) {
+		throw new Error("Corrupt PNG");
+	}
+	if (interlace) {
+		throw new Error("Interlaced PNGs are not supported");
+	}
+
+	const compressed = new Uint8Array(idat.reduce((sum, chunk) => sum + chunk.length, 0));
+	let position = 0;
+	for (const chunk of idat) {
+		compressed.set(chunk, position);
+		position += chunk.length;
+	}
+
+	const image = { width, height, orientation: 1 };
+	const base = `/Type /XObject /Subtype /Image /Width ${width} /Height ${height}`;
+
+	if (colorType === 0 || colorType === 2 || colorType === 3) {
+		const colors = colorType === 2 ? 3 : 1;
+		let colorSpace = colors === 3 ? "/DeviceRGB" : "/DeviceGray";
+		if (colorType === 3) {
+			if (!palette) {
+				throw new Error("Corrupt PNG (missing palette)");
+			}
+			const hex = [...palette].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+			colorSpace = `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${hex}>]`;
+		}
+		return {
+			...image,
+			dictionary: `${base} /ColorSpace ${colorSpace} /BitsPerComponent ${bitDepth} /Filter /FlateDecode /DecodeParms << /Predictor 15 /Colors ${colors} /BitsPerComponent ${bitDepth} /Columns ${width} >>`,
+			data: compressed,
+		};
+	}
+
+	if (colorType !== 4 && colorType !== 6) {
+		throw new Error(`Unsupported PNG color type ${colorType}`);
+	}
+
+	// Gray or RGB with alpha: split the alpha channel out into a soft mask
+	const colors = colorType === 6 ? 3 : 1;
+	const sampleBytes = bitDepth / 8;
+	const pixelBytes = (colors + 1) * sampleBytes;
+	const pixels = unfilterPng(await transform(compressed, new DecompressionStream("deflate")), width, height, pixelBytes);
+
+	const color = new Uint8Array(width * height * colors * sampleBytes);
+	const alpha = new Uint8Array(width * height * sampleBytes);
+	for (let i = 0; i < width * height; i++) {
+		const pixel = pixels.subarray(i * pixelBytes, (i + 1) * pixelBytes);
+		color.set(pixel.subarray(0, colors * sampleBytes), i * colors * sampleBytes);
+		alpha.set(pixel.subarray(colors * sampleBytes), i * sampleBytes);
+	}
+
+	return {
+		...image,
+		dictionary: `${base} /ColorSpace ${colors === 3 ? "/DeviceRGB" : "/DeviceGray"} /BitsPerComponent ${bitDepth} /Filter /FlateDecode`,
+		data: await transform(color, new CompressionStream("deflate")),
+		mask: {
+			dictionary: `${base} /ColorSpace /DeviceGray /BitsPerComponent ${bitDepth} /Filter /FlateDecode`,
+			data: await transform(alpha, new CompressionStream("deflate")),
+		},
+	};
+}
+
+// How each EXIF orientation maps the image's unit square onto the upright picture, as [a b c d e f]
+const ORIENTATION_MATRICES: Record<number, number[]> = {
+	1: [1, 0, 0, 1, 0, 0],
+	2: [-1, 0, 0, 1, 1, 0],
+	3: [-1, 0, 0, -1, 1, 1],
+	4: [1, 0, 0, -1, 0, 1],
+	5: [0, -1, -1, 0, 1, 1],
+	6: [0, -1, 1, 0, 0, 1],
+	7: [0, 1, 1, 0, 0, 0],
+	8: [0, 1, -1, 0, 1, 0],
+};
+
+/**
+ * The content stream drawing an image as large as it fits on the page, centred and upright
+ */
+function pageContent(image: PdfImage): string {
+	const sideways = image.orientation >= 5;
+	const uprightWidth = sideways ? image.height : image.width;
+	const uprightHeight = sideways ? image.width : image.height;
+	const scale = Math.min(PAGE_WIDTH / uprightWidth, PAGE_HEIGHT / uprightHeight);
+	const width = uprightWidth * scale;
+	const height = uprightHeight * scale;
+	const x = (PAGE_WIDTH - width) / 2;
+	const y = (PAGE_HEIGHT - height) / 2;
+
+	const [a, b, c, d, e, f] = ORIENTATION_MATRICES[image.orientation];
+	const matrix = [a * width, b * height, c * width, d * height, e * width + x, f * height + y];
+	return `q ${matrix.map((value) => +value.toFixed(4)).join(" ")} cm /Im0 Do Q`;
+}
+
+/**
+ * Write a PDF with one page per image
+ */
+function writePdf(images: PdfImage[], title: string): Uint8Array {
+	const encoder = new TextEncoder();
+	const parts: Uint8Array[] = [];
+	const offsets: number[] = [];
+	let length = 0;
+	const write = (part: string | Uint8Array) => {
+		const bytes = typeof part === "string" ? encoder.encode(part) : part;
+		parts.push(bytes);
+		length += bytes.length;
+	};
+	const object = (id: number, body: string, stream?: Uint8Array) => {
+		offsets[id] = length;
+		if (stream) {
+			write(`${id} 0 obj\n<< ${body} /Length ${stream.length} >>\nstream\n`);
+			write(stream);
+			write("\nendstream\nendobj\n");
+		} else {
+			write(`${id} 0 obj\n${body}\nendobj\n`);
+		}
+	};
+
+	// Objects: 1 catalog, 2 page tree, 3 info, then page, contents, image and mask for each image
+	const pageIds = images.map((_, i) => 4 + i * 4);
+	write("%PDF-1.4\n%âãÏÓ\n");
+	object(1, "<< /Type /Catalog /Pages 2 0 R >>");
+	object(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${images.length} >>`);
+	const escapedTitle = title.replace(/[^\x20-\x7e]/g, "?").replace(/[\\()]/g, "\\$&");
+	object(3, `<< /Title (${escapedTitle}) /Producer (Send to reMarkable) >>`);
+
+	images.forEach((image, i) => {
+		const [pageId, contentsId, imageId, maskId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2, pageIds[i] + 3];
+		object(pageId, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH.toFixed(2)} ${PAGE_HEIGHT.toFixed(2)}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentsId} 0 R >>`);
+		object(contentsId, "", encoder.encode(pageContent(image)));
+		object(imageId, image.mask ? `${image.dictionary} /SMask ${maskId} 0 R` : image.dictionary, image.data);
+		// Keep the numbering regular; unused mask slots are empty objects
+		object(maskId, image.mask ? image.mask.dictionary : "null", image.mask?.data);
+	});
+
+	const xrefOffset = length;
+	const count = 4 + images.length * 4;
+	write(`xref\n0 ${count}\n0000000000 65535 f \n`);
+	for (let id = 1; id < count; id++) {
+		write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+	}
+	write(`trailer\n<< /Size ${count} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+	const result = new Uint8Array(length);
+	let position = 0;
+	for (const part of parts) {
+		result.set(part, position);
+		position += part.length;
+	}
+	return result;
+}
+
+/**
+ * Convert one or more JPEG/PNG images into a PDF with a page per image, sized to the
+ * reMarkable's screen ratio and turned upright according to EXIF orientation.
+ * Named after the first image unless a name is given. Throws for unsupported images.
+ */
+export async function imagesToPdf(files: File[], name?: string): Promise<File> {
+	const images: PdfImage[] = [];
+	for (const file of files) {
+		const bytes = new Uint8Array(await file.arrayBuffer());
+		const type = sniffImageType(bytes);
+		if (!type) {
+			throw new Error(`"${file.name}" is not a JPEG or PNG image`);
+		}
+		try {
+			images.push(type === "image/jpeg" ? readJpeg(bytes) : await readPng(bytes));
+		} catch (error) {
+			throw new Error(`"${file.name}" could not be converted: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	const title = name || files[0].name.replace(/\.(jpe?g|png)$/i, "");
+	return new File([writePdf(images, title)], `${title}.pdf`, { type: "application/pdf" });
+}
+
+/**
+ * Combine all the images among some documents into a single PDF, in place of the first image.
+ * If any image can't be converted they are left as they are, to be reported one by one on upload.
+ */
+export async function combineImages(documents: ExpandedDocument[]): Promise<ExpandedDocument[]> {
+	const images: ExpandedDocument[] = [];
+	for (const document of documents) {
+		if (await isImage(document.file)) {
+			images.push(document);
+		}
+	}
+	if (images.length < 2) {
+		return documents;
+	}
+
+	let combined: File;
+	try {
+		combined = await imagesToPdf(images.map((image) => image.file));
+	} catch (error) {
+		console.error(`Not combining images: ${error instanceof Error ? error.message : String(error)}`);
+		return documents;
+	}
+
+	console.log(`Combined ${images.length} images into ${combined.name}`);
+	return documents
+		.filter((document) => !images.includes(document) || document === images[0])
+		.map((document) => document === images[0] ? { file: combined, subfolder: document.subfolder } : document);
+}
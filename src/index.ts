@@ -1,14 +1,117 @@
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
 import { AuthDO } from "./auth-do";
-import { RemarkableUploadWorkflow } from "./workflow";
-import { uploadFile } from "./upload-utils";
+import { RegistryDO, getRegistry } from "./registry-do";
+import { MAX_RESENDS, RemarkableUploadWorkflow, UPLOAD_CONTROL_EVENT } from "./workflow";
+import { uploadFile, UploadFailure, UploadResult } from "./upload-utils";
+import { expandArchives, expansionName, isArchive } from "./archive";
+import { combineImages } from "./image-pdf";
+import { DEFAULT_MAX_FILE_SIZE } from "./validation";
+import { checkSender, normalizeSenderEntry } from "./sender-auth";
+import { validateSettingsChanges } from "./settings";
+import { extractLinks, fetchDocument } from "./fetch-url";
+import { emailToEpub, hasConvertibleBody, isInlineImage } from "./newsletter";
+import { DEFAULT_NAMING_TEMPLATE, nameAttachments, NamingContext } from "./naming";
+import { generateWebhookSecret, MAX_WEBHOOKS, validateWebhookUrl } from "./webhooks";
+import { bearerToken, createAlias, generateApiToken, hashApiToken, isAuthorized, isGroupAuthorized, requireAdminSecret, requireApiToken, requireGroupToken, resolveRecipient } from "./api-auth";
+import { normalizeInviteCode, validateInviteRequest } from "./invites";
+import { destroyAccount } from "./accounts";
+import { buildLibrary, listEntries } from "./remarkable-api";
+import { validateEndpoints } from "./endpoints";
+import { fetchFeed, MAX_FEEDS, validateFeedSchedule } from "./feeds";
+import { deliverDigest, sendScheduledDigests } from "./digest";
+import { isAutoSubmitted, receiptUpdate, sendReceipt } from "./receipts";
+import { parsePageRanges, parseSubjectDirectives } from "./directives";
+import { mergeDocuments } from "./pdf";
+import { createGroup, deliveredToAnyone, deliveryProgress, emailGroup, groupMaxFileSize, groupSummary, GroupUploadResult, unknownMembers, uploadToGroup, validateGroupRequest } from "./groups";
+import { parseShareAccount, SHARE_ACCOUNT_COOKIE, SHARE_ACCOUNT_MAX_AGE, shareResultPath, webManifest } from "./pwa";
+import { Receipt, ReceiptItem } from "./types";
 import { env } from 'cloudflare:workers';
 import * as PostalMime from 'postal-mime';
+import { deleteCookie, getCookie, setCookie } from 'hono/cookie';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
 
 /**
  * Send to reMarkable - A Cloudflare Worker for uploading documents to reMarkable
  */
 
+// Maximum number of links fetched from an email body without attachments
+const MAX_EMAIL_LINKS = 5;
+
+// HTTP status codes for uploads rejected before they reach R2
+const UPLOAD_FAILURE_STATUS: Record<UploadFailure['code'], ContentfulStatusCode> = {
+	empty: 400,
+	too_large: 413,
+	unsupported_type: 415,
+	invalid_archive: 422,
+	invalid_pdf: 422,
+	revoked: 403,
+	suspended: 403,
+	rate_limited: 429,
+};
+
+/**
+ * Response for an upload of several documents, with each one's result. It only fails
+ * as a whole when nothing could be uploaded.
+ */
+function multiUploadResponse(c: Context<{ Bindings: Env }>, results: UploadResult[]) {
+	const failures = results.filter((result): result is UploadFailure => !result.success);
+	const uploaded = results.length - failures.length;
+
+	if (results.length === 0) {
+		return c.json({ error: "No PDF or EPUB documents found" }, 422);
+	}
+
+	const retryAfter = Math.max(0, ...failures.map((failure) => failure.retryAfter || 0));
+	if (uploaded === 0 && retryAfter > 0) {
+		c.header('Retry-After', String(retryAfter));
+	}
+
+	return c.json({
+		success: uploaded > 0,
+		uploaded,
+		failed: failures.length,
+		results: results.map((result) => result.success ? {
+			success: true,
+			fileId: result.fileId,
+			fileName: result.fileName,
+			workflowId: result.workflowId,
+			duplicate: result.duplicate || false,
+		} : {
+			success: false,
+			fileName: result.fileName,
+			error: result.error,
+		}),
+	}, uploaded > 0 ? 200 : UPLOAD_FAILURE_STATUS[failures[0].code]);
+}
+
+/**
+ * Response for an upload to a group, with each document's result for every member. It only
+ * fails as a whole when no document reached any member.
+ */
+function groupUploadResponse(c: Context<{ Bindings: Env }>, results: GroupUploadResult[]) {
+	const delivered = results.filter((result) => result.success && deliveredToAnyone(result.members)).length;
+
+	if (results.length === 0) {
+		return c.json({ error: "No PDF or EPUB documents found" }, 422);
+	}
+
+	const failure = results.find((result): result is UploadFailure => !result.success);
+	return c.json({
+		success: delivered > 0,
+		delivered,
+		results: results.map((result) => result.success ? {
+			success: true,
+			fileId: result.fileId,
+			fileName: result.fileName,
+			members: result.members,
+		} : {
+			success: false,
+			fileName: result.fileName,
+			error: result.error,
+		}),
+	}, delivered > 0 || !failure ? 200 : UPLOAD_FAILURE_STATUS[failure.code]);
+}
+
 // Create Hono app
 const app = new Hono<{ Bindings: Env }>();
 
@@ -17,27 +120,57 @@ app.get('/', (c) => {
 	return env.ASSETS.fetch('/index.html');
 });
 
+// Route for the web app manifest, which makes the page installable and a share target
+app.get('/manifest.webmanifest', (c) => {
+	return c.json(webManifest(), 200, { 'Content-Type': 'application/manifest+json' });
+});
+
 app.get('/signup-enabled', (c) => {
-	// @ts-ignore - The exact value of the env var is in the types, so comparing it results in an error.
-	return c.json({ signupEnabled: c.env.SIGNUP_DISABLED === "false" });
+	return c.json({
+		// @ts-ignore - The exact value of the env var is in the types, so comparing it results in an error.
+		signupEnabled: c.env.SIGNUP_DISABLED === "false",
+		// Invites can only be issued when the admin API is enabled
+		invitesEnabled: !!c.env.ADMIN_SECRET,
+	});
 });
 
 // Route to register a new device with a link code
 app.post('/register', async (c) => {
 	// @ts-ignore - The exact value of the env var is in the types, so comparing it results in an error.
-	if (c.env.SIGNUP_DISABLED !== "false") {
-		console.error('Signup is currently disabled');
-		return c.json({ error: "Signup is currently disabled" }, 403);
-	}
+	const signupOpen = c.env.SIGNUP_DISABLED === "false";
+	let redeemedInvite: string | null = null;
 	try {
-		const { linkCode } = await c.req.json();
+		const { linkCode, endpoints, inviteCode } = await c.req.json();
 		console.log(`Registration attempt with link code: ${linkCode}`);
 
+		// With open signup disabled, an operator-issued invite is required
+		const invite = normalizeInviteCode(inviteCode);
+		if (!signupOpen && !invite) {
+			console.error('Signup is currently disabled');
+			return c.json({ error: "Signup is currently disabled, an invite code is required" }, 403);
+		}
+
 		if (!linkCode) {
 			console.error('Registration failed: No link code provided');
 			return c.json({ error: "Link code is required" }, 400);
 		}
 
+		// Optional per-account hosts, for self-hosted clouds such as rmfakecloud
+		const endpointsValidation = await validateEndpoints(c.env, endpoints);
+		if (!endpointsValidation.success) {
+			console.error(`Registration failed: ${endpointsValidation.error}`);
+			return c.json({ error: endpointsValidation.error }, 400);
+		}
+
+		if (!signupOpen && invite) {
+			const redemption = await getRegistry(c.env).redeemInvite(invite);
+			if (!redemption.success) {
+				console.error(`Registration failed: ${redemption.error}`);
+				return c.json({ error: redemption.error }, 403);
+			}
+			redeemedInvite = invite;
+		}
+
 		// Generate a unique device ID
 		const deviceId = crypto.randomUUID();
 
@@ -50,21 +183,38 @@ app.post('/register', async (c) => {
 		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authDoId));
 
 		// Register the device
-		const result = await authDoStub.register(linkCode, deviceId);
+		const result = await authDoStub.register(linkCode, deviceId, endpointsValidation.endpoints);
 
 		if (result.success) {
 			console.log(`Device registered successfully: authId=${authDoId}, deviceId=${result.device_id}`);
+			// The invite is spent once the device is registered, whatever happens next
+			redeemedInvite = null;
+
+			// The API token manages the account; the alias is the public email address
+			const apiToken = generateApiToken();
+			await authDoStub.setApiToken(apiToken);
+			const emailAlias = await createAlias(c.env, authDoId);
+			await getRegistry(c.env).registerAccount(authDoId);
+
 			return c.json({
 				success: true,
 				authId: authDoId,
-				message: "Device registered successfully. Use the authId for future API calls."
+				apiToken: apiToken,
+				emailAlias: emailAlias,
+				message: "Device registered successfully. Keep the API token secret, and send documents to the email alias."
 			});
 		} else {
 			console.error(`Registration failed: ${result.error}`);
+			if (redeemedInvite) {
+				await getRegistry(c.env).releaseInvite(redeemedInvite);
+			}
 			return c.json({ error: result.error }, 400);
 		}
 	} catch (error) {
 		console.error('Registration error:', error);
+		if (redeemedInvite) {
+			await getRegistry(c.env).releaseInvite(redeemedInvite).catch(() => {});
+		}
 		return c.json({
 			error: "Registration failed",
 			details: error instanceof Error ? error.message : String(error)
@@ -72,6 +222,57 @@ app.post('/register', async (c) => {
 	}
 });
 
+// Route to issue a new API token. Rotates the token, or for accounts registered before
+// tokens existed, claims the first one and keeps the auth ID working as an email alias.
+// Claiming needs a new one-time code from the same reMarkable account rather than the auth ID
+// alone, so it is handled before the API token middleware.
+app.post('/auth/:authId/token', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+
+		if (await authDoStub.isLegacyAccount()) {
+			const { linkCode } = await c.req.json().catch(() => ({})) as { linkCode?: unknown };
+			if (typeof linkCode !== "string" || !linkCode.trim()) {
+				return c.json({ error: "Accounts without an API token are claimed with a new one-time code (linkCode) from the same reMarkable account" }, 400);
+			}
+			const claim = await authDoStub.reclaimLegacyAccount(linkCode.trim());
+			if (!claim.success) {
+				return c.json({ error: claim.error }, 403);
+			}
+
+			console.log(`Migrating legacy authId ${authId} to an API token`);
+			await getRegistry(c.env).registerAlias(authId.toLowerCase(), authId);
+			await authDoStub.addAlias(authId.toLowerCase());
+		} else {
+			if (!await isAuthorized(c.env, authId, c.req.header('authorization'))) {
+				return c.json({ error: "A valid API token is required (Authorization: Bearer <token>)" }, 401);
+			}
+			if (await authDoStub.isSuspended()) {
+				return c.json({ error: "This account has been suspended by the operator" }, 403);
+			}
+			if (!await authDoStub.isRegistered()) {
+				return c.json({ error: "Device not registered" }, 404);
+			}
+		}
+
+		const apiToken = generateApiToken();
+		await authDoStub.setApiToken(apiToken);
+
+		console.log(`Issued new API token for authId: ${authId}`);
+		return c.json({ success: true, apiToken });
+	} catch (error) {
+		console.error('Token issue error:', error);
+		return c.json({
+			error: "Failed to issue API token",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// All account routes need the account's API token as a bearer token
+app.use('/auth/:authId/*', requireApiToken);
+
 // Route to check authentication status
 app.get('/auth/:authId/status', async (c) => {
 	try {
@@ -92,113 +293,1475 @@ app.get('/auth/:authId/status', async (c) => {
 	}
 });
 
-// Route to destroy an auth ID and its durable object
-app.delete('/auth/:authId', async (c) => {
+// Route to get the settings for an auth ID
+app.get('/auth/:authId/settings', async (c) => {
 	try {
 		const authId = c.req.param('authId');
-		console.log(`Destroying auth for authId: ${authId}`);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const settings = await authDoStub.getSettings();
+
+		return c.json(settings);
+	} catch (error) {
+		console.error('Settings error:', error);
+		return c.json({
+			error: "Failed to get settings",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to update the settings for an auth ID
+app.patch('/auth/:authId/settings', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const body = await c.req.json();
 
+		const validation = validateSettingsChanges(body);
+		if (!validation.success) {
+			return c.json({ error: validation.error }, 400);
+		}
+
+		console.log(`Updating settings for authId: ${authId}`, validation.changes);
 		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const settings = await authDoStub.updateSettings(validation.changes);
 
-		// Call destroy method on the durable object
-		await authDoStub.destroy();
+		return c.json({ success: true, settings });
+	} catch (error) {
+		console.error('Settings update error:', error);
+		return c.json({
+			error: "Failed to update settings",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
 
-		console.log(`Successfully destroyed auth for authId: ${authId}`);
+// Route to get the reMarkable cloud endpoint overrides for an auth ID
+app.get('/auth/:authId/endpoints', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const endpoints = await authDoStub.getEndpoints();
+
+		return c.json(endpoints);
+	} catch (error) {
+		console.error('Endpoints error:', error);
 		return c.json({
-			success: true,
-			message: "Authentication destroyed successfully"
+			error: "Failed to get endpoints",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to replace the reMarkable cloud endpoint overrides for an auth ID
+app.put('/auth/:authId/endpoints', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const validation = await validateEndpoints(c.env, await c.req.json());
+		if (!validation.success) {
+			return c.json({ error: validation.error }, 400);
+		}
+
+		console.log(`Updating endpoints for authId: ${authId}`, validation.endpoints);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		await authDoStub.setEndpoints(validation.endpoints);
+
+		return c.json({ success: true, endpoints: validation.endpoints });
+	} catch (error) {
+		console.error('Endpoints update error:', error);
+		return c.json({
+			error: "Failed to update endpoints",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list the upload history for an auth ID
+app.get('/auth/:authId/uploads', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Listing uploads for authId: ${authId}`);
+
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const uploads = await authDoStub.listUploads();
+
+		return c.json({ uploads });
+	} catch (error) {
+		console.error('Upload history error:', error);
+		return c.json({
+			error: "Failed to list uploads",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to check the status of a single upload
+app.get('/auth/:authId/uploads/:fileId', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const fileId = c.req.param('fileId');
+		console.log(`Checking upload ${fileId} for authId: ${authId}`);
+
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const upload = await authDoStub.getUpload(fileId);
+
+		if (!upload) {
+			return c.json({ error: "Upload not found" }, 404);
+		}
+
+		return c.json(upload);
+	} catch (error) {
+		console.error('Upload status error:', error);
+		return c.json({
+			error: "Failed to check upload status",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list the folders and documents in the tablet's library (read-only)
+app.get('/auth/:authId/documents', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Listing library for authId: ${authId}`);
+
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const accessToken = await authDoStub.getAccessToken();
+		if (!accessToken) {
+			return c.json({ error: "No valid access token available. Device may not be registered or was revoked." }, 409);
+		}
+
+		const entries = await listEntries(await authDoStub.getDocumentHost(), accessToken);
+		const items = buildLibrary(entries);
+
+		return c.json({
+			folders: items.filter((item) => item.type === 'folder'),
+			documents: items.filter((item) => item.type === 'document'),
 		});
 	} catch (error) {
-		console.error('Auth destruction error:', error);
+		console.error('Library listing error:', error);
 		return c.json({
-			error: "Failed to destroy authentication",
+			error: "Failed to list documents",
 			details: error instanceof Error ? error.message : String(error)
 		}, 500);
 	}
 });
 
-// Route to upload a file with authId directly (no email)
-app.post('/upload', async (c) => {
+// Route to upload a document to the tablet again from the copy kept during the retention period
+app.post('/auth/:authId/uploads/:fileId/resend', async (c) => {
 	try {
-		console.log('Received direct upload request');
+		const authId = c.req.param('authId');
+		const fileId = c.req.param('fileId');
+		console.log(`Re-sending upload ${fileId} for authId: ${authId}`);
 
-		// Parse the multipart form data
-		const formData = await c.req.formData();
-		const file = formData.get('file') as File;
-		const authId = formData.get('authId') as string;
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const upload = await authDoStub.getUpload(fileId);
 
-		if (!file) {
-			console.error('Upload failed: No file provided');
-			return c.json({ error: "No file provided" }, 400);
+		if (!upload) {
+			return c.json({ error: "Upload not found" }, 404);
 		}
 
-		if (!authId) {
-			console.error('Upload failed: No authId provided');
-			return c.json({ error: "authId is required" }, 400);
+		// Only uploads whose workflow is waiting out the retention period still have their file
+		if (upload.state !== 'uploaded' || !upload.workflowId || !await c.env.DOCUMENT_STORAGE.head(fileId)) {
+			return c.json({ error: `Upload can't be re-sent, it is ${upload.state.replace('_', ' ')} and no longer kept` }, 409);
 		}
 
-		console.log(`Processing direct upload: file=${file.name}, authId=${authId}`);
+		if (!await authDoStub.recordResend(fileId, MAX_RESENDS)) {
+			return c.json({ error: `Upload has already been re-sent ${MAX_RESENDS} times` }, 409);
+		}
 
-		const result = await uploadFile(c.env, file, authId);
+		const instance = await c.env.MY_WORKFLOW.get(upload.workflowId);
+		await instance.sendEvent({ type: UPLOAD_CONTROL_EVENT, payload: { action: 'resend' } });
 
-		console.log(`Direct upload successful: fileId=${result.fileId}, workflowId=${result.workflowId}`);
+		return c.json({ success: true, fileId, workflowId: upload.workflowId });
+	} catch (error) {
+		console.error('Upload resend error:', error);
 		return c.json({
-			success: result.success,
-			error: result.error,
-			fileId: result.fileId,
-		});
+			error: "Failed to re-send upload",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to delete an upload's file from storage before its retention period is over
+app.delete('/auth/:authId/uploads/:fileId', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const fileId = c.req.param('fileId');
+		console.log(`Purging upload ${fileId} for authId: ${authId}`);
+
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const upload = await authDoStub.getUpload(fileId);
+
+		if (!upload) {
+			return c.json({ error: "Upload not found" }, 404);
+		}
+
+		if (upload.state === 'cleaned_up') {
+			return c.json({ success: true, fileId, state: upload.state });
+		}
+
+		// A running workflow deletes the file itself once any upload in progress is done
+		if (upload.state !== 'failed' && upload.workflowId) {
+			try {
+				const instance = await c.env.MY_WORKFLOW.get(upload.workflowId);
+				await instance.sendEvent({ type: UPLOAD_CONTROL_EVENT, payload: { action: 'purge' } });
+				return c.json({ success: true, fileId, state: upload.state });
+			} catch (error) {
+				console.log(`Could not signal workflow ${upload.workflowId}, deleting the file directly:`, error);
+			}
+		}
+
+		// A group's file stays until every member is done with it
+		if (!upload.group || await getRegistry(c.env).releaseFile(fileId, authId)) {
+			await c.env.DOCUMENT_STORAGE.delete(fileId);
+		}
+		if (upload.state !== 'failed') {
+			await authDoStub.updateUploadState(fileId, 'cleaned_up');
+		}
 
+		return c.json({ success: true, fileId, state: upload.state === 'failed' ? upload.state : 'cleaned_up' });
 	} catch (error) {
-		console.error('Error processing direct file upload:', error);
+		console.error('Upload purge error:', error);
 		return c.json({
-			error: "Failed to process file upload",
+			error: "Failed to purge upload",
 			details: error instanceof Error ? error.message : String(error)
 		}, 500);
 	}
 });
 
-export default {
-	fetch: app.fetch,
+// Route to list the senders allowed to email an auth ID
+app.get('/auth/:authId/senders', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const senders = await authDoStub.getAllowedSenders();
 
-	async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
-		const parser = new PostalMime.default();
-		const rawEmail = new Response(message.raw);
-		const email = await parser.parse(await rawEmail.arrayBuffer());
-		console.log(`Received email from: ${email.from}, subject: ${email.subject}`);
+		return c.json({ senders });
+	} catch (error) {
+		console.error('Sender list error:', error);
+		return c.json({
+			error: "Failed to list allowed senders",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
 
-		// Make sure we have attachments
-		if (!email.attachments || email.attachments.length === 0) {
-			console.error('Email has no attachments');
-			message.setReject("Email must contain at least one attachment");
-			return;
+// Route to allow a sender address or domain to email an auth ID
+app.post('/auth/:authId/senders', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const { sender } = await c.req.json();
+
+		const normalized = typeof sender === 'string' ? normalizeSenderEntry(sender) : null;
+		if (!normalized) {
+			return c.json({ error: "sender must be an email address or a domain" }, 400);
 		}
 
-		// We then make sure we have a `to` address ending in `@send-to-remarkable.zegs.me`, and we extract the first part as the auth ID
-		if (!email.to || email.to.length === 0) {
-			console.error('Email has no "to" address');
-			message.setReject("Email must have a 'to' address");
-			return;
+		console.log(`Allowing sender ${normalized} for authId: ${authId}`);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const senders = await authDoStub.addAllowedSender(normalized);
+
+		return c.json({ success: true, senders });
+	} catch (error) {
+		console.error('Sender add error:', error);
+		return c.json({
+			error: "Failed to add allowed sender",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to remove a sender address or domain from an auth ID's allowlist
+app.delete('/auth/:authId/senders/:sender', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const sender = normalizeSenderEntry(c.req.param('sender'));
+
+		if (!sender) {
+			return c.json({ error: "sender must be an email address or a domain" }, 400);
 		}
-		console.log('email.to:', email.to, typeof email.to);
-		const authDoId = email.to[0].address.split('@')[0];
 
-		if (!authDoId) {
-			console.error('Failed to extract authDoId from email "to" address');
-			message.setReject("Failed to extract authentication ID from email address");
-			return;
+		console.log(`Removing sender ${sender} for authId: ${authId}`);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const senders = await authDoStub.removeAllowedSender(sender);
+
+		return c.json({ success: true, senders });
+	} catch (error) {
+		console.error('Sender removal error:', error);
+		return c.json({
+			error: "Failed to remove allowed sender",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list the webhooks registered for an auth ID
+app.get('/auth/:authId/webhooks', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const webhooks = await authDoStub.getWebhooks();
+
+		// Secrets are only shown once, when the webhook is created
+		return c.json({ webhooks: webhooks.map(({ secret, ...webhook }) => webhook) });
+	} catch (error) {
+		console.error('Webhook list error:', error);
+		return c.json({
+			error: "Failed to list webhooks",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to register a webhook for an auth ID
+app.post('/auth/:authId/webhooks', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const { url } = await c.req.json();
+
+		const urlError = await validateWebhookUrl(url);
+		if (urlError) {
+			return c.json({ error: urlError }, 400);
 		}
 
-		// Process each attachment
-		for (const attachment of email.attachments) {
-			console.log(`Processing attachment: ${attachment.filename}`);
-			// We run the upload workflow for each attachment
-			const file = new File([attachment.content], email.subject || attachment.filename || "send to remarkable upload", {
-				type: attachment.mimeType || 'application/octet-stream'
-			});
-			await uploadFile(env, file, authDoId, email.from.address);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		if ((await authDoStub.getWebhooks()).length >= MAX_WEBHOOKS) {
+			return c.json({ error: `At most ${MAX_WEBHOOKS} webhooks can be registered` }, 400);
+		}
+
+		console.log(`Registering webhook ${url} for authId: ${authId}`);
+		const webhook = await authDoStub.addWebhook(url, generateWebhookSecret());
+
+		return c.json({ success: true, webhook });
+	} catch (error) {
+		console.error('Webhook registration error:', error);
+		return c.json({
+			error: "Failed to register webhook",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to remove a webhook from an auth ID
+app.delete('/auth/:authId/webhooks/:webhookId', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const webhookId = c.req.param('webhookId');
+
+		console.log(`Removing webhook ${webhookId} for authId: ${authId}`);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		if (!await authDoStub.removeWebhook(webhookId)) {
+			return c.json({ error: "Webhook not found" }, 404);
 		}
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Webhook removal error:', error);
+		return c.json({
+			error: "Failed to remove webhook",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list an auth ID's feed subscriptions and digest schedule
+app.get('/auth/:authId/feeds', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+
+		return c.json({
+			feeds: await authDoStub.getFeeds(),
+			schedule: await authDoStub.getFeedSchedule(),
+		});
+	} catch (error) {
+		console.error('Feeds retrieval error:', error);
+		return c.json({
+			error: "Failed to get feeds",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to subscribe an auth ID to an RSS or Atom feed
+app.post('/auth/:authId/feeds', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const { url } = await c.req.json();
+
+		if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+			return c.json({ error: "url must be an http(s) URL" }, 400);
+		}
+
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const feeds = await authDoStub.getFeeds();
+		if (feeds.length >= MAX_FEEDS) {
+			return c.json({ error: `At most ${MAX_FEEDS} feeds can be subscribed to` }, 400);
+		}
+		if (feeds.some((feed) => feed.url === url)) {
+			return c.json({ error: "Already subscribed to this feed" }, 409);
+		}
+
+		// Fetch the feed up front so a typo fails now rather than silently at digest time
+		const fetched = await fetchFeed(url);
+		if (!fetched.success) {
+			return c.json({ error: fetched.error }, 422);
+		}
+
+		console.log(`Subscribing authId ${authId} to feed ${url}`);
+		const feed = await authDoStub.addFeed(url, fetched.feed.title);
+		await getRegistry(c.env).setFeedAccount(authId, true);
+
+		return c.json({ success: true, feed });
+	} catch (error) {
+		console.error('Feed subscription error:', error);
+		return c.json({
+			error: "Failed to subscribe to feed",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to change when an auth ID's digest is sent
+app.put('/auth/:authId/feeds/schedule', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const validation = validateFeedSchedule(await c.req.json());
+		if (!validation.success) {
+			return c.json({ error: validation.error }, 400);
+		}
+
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		await authDoStub.setFeedSchedule(validation.schedule);
+
+		return c.json({ success: true, schedule: validation.schedule });
+	} catch (error) {
+		console.error('Feed schedule error:', error);
+		return c.json({
+			error: "Failed to update feed schedule",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to send an auth ID's digest now instead of waiting for its schedule
+app.post('/auth/:authId/feeds/digest', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Sending digest now for authId: ${authId}`);
+
+		const result = await deliverDigest(c.env, authId);
+		if (!result.success) {
+			return c.json({ success: false, error: result.error }, 422);
+		}
+
+		return c.json(result);
+	} catch (error) {
+		console.error('Digest error:', error);
+		return c.json({
+			error: "Failed to send digest",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to unsubscribe an auth ID from a feed
+app.delete('/auth/:authId/feeds/:feedId', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const feedId = c.req.param('feedId');
+
+		console.log(`Removing feed ${feedId} for authId: ${authId}`);
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		if (!await authDoStub.removeFeed(feedId)) {
+			return c.json({ error: "Feed not found" }, 404);
+		}
+
+		if ((await authDoStub.getFeeds()).length === 0) {
+			await getRegistry(c.env).setFeedAccount(authId, false);
+		}
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Feed removal error:', error);
+		return c.json({
+			error: "Failed to remove feed",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list the email aliases for an auth ID
+app.get('/auth/:authId/aliases', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+		const aliases = await authDoStub.getAliases();
+
+		return c.json({ aliases });
+	} catch (error) {
+		console.error('Alias list error:', error);
+		return c.json({
+			error: "Failed to list aliases",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to create a new email alias for an auth ID
+app.post('/auth/:authId/aliases', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+
+		if (!await authDoStub.isRegistered()) {
+			return c.json({ error: "Device not registered" }, 404);
+		}
+
+		const alias = await createAlias(c.env, authId);
+		console.log(`Created alias ${alias} for authId: ${authId}`);
+
+		return c.json({ success: true, alias });
+	} catch (error) {
+		console.error('Alias creation error:', error);
+		return c.json({
+			error: "Failed to create alias",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to replace an email alias with a new one
+app.post('/auth/:authId/aliases/:alias/rotate', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const oldAlias = c.req.param('alias');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+
+		if (!(await authDoStub.getAliases()).some((entry) => entry.alias === oldAlias)) {
+			return c.json({ error: "Alias not found" }, 404);
+		}
+
+		const alias = await createAlias(c.env, authId);
+		await getRegistry(c.env).removeAlias(oldAlias, authId);
+		await authDoStub.removeAlias(oldAlias);
+		console.log(`Rotated alias ${oldAlias} to ${alias} for authId: ${authId}`);
+
+		return c.json({ success: true, alias });
+	} catch (error) {
+		console.error('Alias rotation error:', error);
+		return c.json({
+			error: "Failed to rotate alias",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to revoke an email alias
+app.delete('/auth/:authId/aliases/:alias', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		const alias = c.req.param('alias');
+		const authDoStub = c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId));
+
+		if (!await authDoStub.removeAlias(alias)) {
+			return c.json({ error: "Alias not found" }, 404);
+		}
+		await getRegistry(c.env).removeAlias(alias, authId);
+		console.log(`Revoked alias ${alias} for authId: ${authId}`);
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Alias revocation error:', error);
+		return c.json({
+			error: "Failed to revoke alias",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to destroy an auth ID and its durable object
+app.delete('/auth/:authId', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Destroying auth for authId: ${authId}`);
+
+		// Release the account's email aliases and feeds, then call destroy method on the durable object
+		await destroyAccount(c.env, authId);
+
+		console.log(`Successfully destroyed auth for authId: ${authId}`);
+		return c.json({
+			success: true,
+			message: "Authentication destroyed successfully"
+		});
+	} catch (error) {
+		console.error('Auth destruction error:', error);
+		return c.json({
+			error: "Failed to destroy authentication",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to upload a file with authId directly (no email)
+app.post('/upload', async (c) => {
+	try {
+		console.log('Received direct upload request');
+
+		// Parse the multipart form data
+		const formData = await c.req.formData();
+		const files = formData.getAll('file').filter((value): value is File => value instanceof File);
+		const authId = formData.get('authId') as string;
+		const groupName = formData.get('group') as string | null;
+		const folder = formData.get('folder') as string | null;
+		const name = formData.get('name') as string | null;
+		const archiveFolders = formData.get('archiveFolders') as string | null;
+		const combine = formData.get('combineImages') as string | null;
+		const merge = formData.get('merge') === 'true';
+		const pagesField = (formData.get('pages') as string | null)?.trim();
+
+		if (files.length === 0) {
+			console.error('Upload failed: No file provided');
+			return c.json({ error: "No file provided" }, 400);
+		}
+
+		// A group's token uploads to every member of the group instead of one account
+		const group = groupName ? await getRegistry(c.env).getGroup(groupName) : null;
+		if (groupName) {
+			if (!group || !await isGroupAuthorized(group, c.req.header('authorization'))) {
+				console.error('Upload failed: Invalid group API token');
+				return c.json({ error: "A valid group API token is required (Authorization: Bearer <token>)" }, 401);
+			}
+		} else if (!authId) {
+			console.error('Upload failed: No authId provided');
+			return c.json({ error: "authId is required" }, 400);
+		} else if (!await isAuthorized(c.env, authId, c.req.header('authorization'))) {
+			console.error('Upload failed: Invalid API token');
+			return c.json({ error: "A valid API token is required (Authorization: Bearer <token>)" }, 401);
+		}
+
+		const pages = pagesField ? parsePageRanges(pagesField) : undefined;
+		if (pages === null) {
+			return c.json({ error: "pages must be page numbers and ranges such as 1-10,12,15-" }, 400);
+		}
+
+		if (group) {
+			console.log(`Processing group upload of ${files.length} file(s), group=${group.name}`);
+
+			const expansion = await expandArchives(files, archiveFolders === 'true', await groupMaxFileSize(c.env, group));
+			if (merge) {
+				try {
+					expansion.documents = await mergeDocuments(expansion.documents);
+				} catch (error) {
+					console.error('Upload failed: could not merge documents:', error);
+					return c.json({ error: `Could not merge the documents: ${error instanceof Error ? error.message : String(error)}` }, 422);
+				}
+			} else if (combine === 'true') {
+				expansion.documents = await combineImages(expansion.documents);
+			}
+
+			const results: GroupUploadResult[] = [...expansion.failures];
+			for (const document of expansion.documents) {
+				results.push(await uploadToGroup(c.env, document.file, group, undefined, {
+					folder: folder || undefined,
+					name: expansionName(expansion, name),
+					subfolder: document.subfolder,
+					pages,
+				}));
+			}
+
+			return groupUploadResponse(c, results);
+		}
+
+		// Several files or an archive report a result for each document
+		if (files.length > 1 || await isArchive(files[0])) {
+			console.log(`Processing direct upload of ${files.length} file(s), authId=${authId}`);
+
+			const settings = await c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId)).getSettings();
+			const keepFolders = archiveFolders === null ? settings.archiveFolders ?? false : archiveFolders === 'true';
+			const expansion = await expandArchives(files, keepFolders, settings.maxFileSize ?? DEFAULT_MAX_FILE_SIZE);
+			if (merge) {
+				try {
+					expansion.documents = await mergeDocuments(expansion.documents);
+				} catch (error) {
+					console.error('Upload failed: could not merge documents:', error);
+					return c.json({ error: `Could not merge the documents: ${error instanceof Error ? error.message : String(error)}` }, 422);
+				}
+			} else if (combine === null ? settings.combineImages : combine === 'true') {
+				expansion.documents = await combineImages(expansion.documents);
+			}
+
+			const results: UploadResult[] = [...expansion.failures];
+			for (const document of expansion.documents) {
+				results.push(await uploadFile(c.env, document.file, authId, undefined, {
+					folder: folder || undefined,
+					name: expansionName(expansion, name),
+					subfolder: document.subfolder,
+					pages,
+				}));
+			}
+
+			return multiUploadResponse(c, results);
+		}
+
+		const file = files[0];
+		console.log(`Processing direct upload: file=${file.name}, authId=${authId}`);
+
+		const result = await uploadFile(c.env, file, authId, undefined, { folder: folder || undefined, name: name || undefined, pages });
+
+		if (!result.success) {
+			console.error(`Direct upload rejected: ${result.error}`);
+			if (result.retryAfter) {
+				c.header('Retry-After', String(result.retryAfter));
+			}
+			return c.json({
+				success: false,
+				error: result.error,
+				fileName: result.fileName,
+			}, UPLOAD_FAILURE_STATUS[result.code]);
+		}
+
+		console.log(`Direct upload successful: fileId=${result.fileId}, workflowId=${result.workflowId}`);
+		return c.json({
+			success: result.success,
+			fileId: result.fileId,
+			fileName: result.fileName,
+			workflowId: result.workflowId,
+			duplicate: result.duplicate || false,
+		});
+
+	} catch (error) {
+		console.error('Error processing direct file upload:', error);
+		return c.json({
+			error: "Failed to process file upload",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to fetch a document from a URL and upload it
+app.post('/upload-url', async (c) => {
+	try {
+		console.log('Received URL upload request');
+
+		const { url, authId, folder, name } = await c.req.json();
+
+		if (!url || typeof url !== 'string') {
+			console.error('URL upload failed: No URL provided');
+			return c.json({ error: "url is required" }, 400);
+		}
+
+		if (!authId || typeof authId !== 'string') {
+			console.error('URL upload failed: No authId provided');
+			return c.json({ error: "authId is required" }, 400);
+		}
+
+		if ((folder && typeof folder !== 'string') || (name && typeof name !== 'string')) {
+			console.error('URL upload failed: folder or name is not a string');
+			return c.json({ error: "folder and name must be strings" }, 400);
+		}
+
+		if (!await isAuthorized(c.env, authId, c.req.header('authorization'))) {
+			console.error('URL upload failed: Invalid API token');
+			return c.json({ error: "A valid API token is required (Authorization: Bearer <token>)" }, 401);
+		}
+
+		// Web pages, e.g. from the "send this page" bookmarklet, arrive as an EPUB of their text
+		const fetched = await fetchDocument(url, true);
+		if (!fetched.success) {
+			console.error(`URL upload failed: ${fetched.error}`);
+			return c.json({ error: fetched.error }, 422);
+		}
+
+		console.log(`Processing URL upload: url=${url}, file=${fetched.file.name}, authId=${authId}`);
+
+		const result = await uploadFile(c.env, fetched.file, authId, undefined, { folder: folder || undefined, name: name || undefined });
+
+		if (!result.success) {
+			console.error(`URL upload rejected: ${result.error}`);
+			if (result.retryAfter) {
+				c.header('Retry-After', String(result.retryAfter));
+			}
+			return c.json({
+				success: false,
+				error: result.error,
+				fileName: result.fileName,
+			}, UPLOAD_FAILURE_STATUS[result.code]);
+		}
+
+		console.log(`URL upload successful: fileId=${result.fileId}, workflowId=${result.workflowId}`);
+		return c.json({
+			success: result.success,
+			fileId: result.fileId,
+			fileName: result.fileName,
+			workflowId: result.workflowId,
+			duplicate: result.duplicate || false,
+		});
+
+	} catch (error) {
+		console.error('Error processing URL upload:', error);
+		return c.json({
+			error: "Failed to process URL upload",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to remember an account on this device for the share target and bookmarklet. The API token
+// goes in an HttpOnly cookie that only `/share` receives, so the page's scripts never keep it.
+app.post('/share/account', async (c) => {
+	try {
+		const { authId } = await c.req.json().catch(() => ({})) as { authId?: unknown };
+		if (typeof authId !== "string" || !authId.trim()) {
+			return c.json({ error: "authId is required" }, 400);
+		}
+		if (!await isAuthorized(c.env, authId.trim(), c.req.header('authorization'))) {
+			return c.json({ error: "A valid API token is required (Authorization: Bearer <token>)" }, 401);
+		}
+
+		setCookie(c, SHARE_ACCOUNT_COOKIE, `${authId.trim()}:${bearerToken(c.req.header('authorization')) ?? ""}`, {
+			path: '/share',
+			maxAge: SHARE_ACCOUNT_MAX_AGE,
+			httpOnly: true,
+			secure: true,
+			sameSite: 'Strict',
+		});
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Remember account error:', error);
+		return c.json({
+			error: "Failed to remember the account",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to forget the account remembered on this device
+app.delete('/share/account', (c) => {
+	deleteCookie(c, SHARE_ACCOUNT_COOKIE, { path: '/share', secure: true });
+	return c.json({ success: true });
+});
+
+// Route for the Web Share Target of the installed app. Documents, images or a link shared from the
+// share sheet go to the account remembered on the device, then the app shows how it went.
+app.post('/share', async (c) => {
+	try {
+		console.log('Received shared content');
+
+		const account = parseShareAccount(getCookie(c, SHARE_ACCOUNT_COOKIE));
+		if (!account || !await c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(account.authId)).authorize(account.token)) {
+			console.error('Share failed: No remembered account');
+			return c.redirect(shareResultPath('signin', "Remember your account on this device, then share again"), 303);
+		}
+
+		const formData = await c.req.formData();
+		const files = formData.getAll('file').filter((value): value is File => value instanceof File && value.size > 0);
+		const results: UploadResult[] = [];
+
+		if (files.length > 0) {
+			console.log(`Processing ${files.length} shared file(s), authId=${account.authId}`);
+			const settings = await c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(account.authId)).getSettings();
+			const expansion = await expandArchives(files, settings.archiveFolders ?? false, settings.maxFileSize ?? DEFAULT_MAX_FILE_SIZE);
+			if (settings.combineImages) {
+				expansion.documents = await combineImages(expansion.documents);
+			}
+
+			results.push(...expansion.failures);
+			for (const document of expansion.documents) {
+				results.push(await uploadFile(c.env, document.file, account.authId, undefined, { subfolder: document.subfolder, source: 'share' }));
+			}
+		} else {
+			// Apps share a link either as the url or somewhere in the text
+			const link = [formData.get('url') as string | null, ...extractLinks((formData.get('text') as string | null) || '')]
+				.find((value) => value?.trim());
+			if (!link) {
+				return c.redirect(shareResultPath('failed', "Nothing to send: share a document or a link"), 303);
+			}
+
+			console.log(`Processing shared link: url=${link}, authId=${account.authId}`);
+			const fetched = await fetchDocument(link, true);
+			if (!fetched.success) {
+				console.error(`Share failed: ${fetched.error}`);
+				return c.redirect(shareResultPath('failed', fetched.error), 303);
+			}
+			results.push(await uploadFile(c.env, fetched.file, account.authId, undefined, { source: 'share' }));
+		}
+
+		const summary = results.map((result) => `${result.fileName}: ${!result.success ? result.error : result.duplicate ? 'already sent' : 'sent'}`);
+		return c.redirect(shareResultPath(results.some((result) => result.success) ? 'sent' : 'failed', summary.join('\n')), 303);
+	} catch (error) {
+		console.error('Error processing shared content:', error);
+		// The share sheet opened the app, so the outcome is shown there rather than as JSON
+		return c.redirect(shareResultPath('failed', `Failed to send: ${error instanceof Error ? error.message : String(error)}`), 303);
+	}
+});
+
+// Routes for a distribution group, all requiring the group's API token
+app.use('/groups/:name/*', requireGroupToken);
+
+// Route to list the documents recently sent to a group, with where each member's upload has got to
+app.get('/groups/:name/deliveries', async (c) => {
+	try {
+		const registry = getRegistry(c.env);
+		const group = await registry.getGroup(c.req.param('name'));
+		if (!group) {
+			return c.json({ error: "Group not found" }, 404);
+		}
+
+		const deliveries = await deliveryProgress(c.env, await registry.listGroupDeliveries(group.name));
+		return c.json({ group: groupSummary(group), deliveries });
+	} catch (error) {
+		console.error('Group delivery listing error:', error);
+		return c.json({
+			error: "Failed to list group deliveries",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Operator routes, all requiring the ADMIN_SECRET
+app.use('/admin/*', requireAdminSecret);
+
+// Route to create an invite code
+app.post('/admin/invites', async (c) => {
+	try {
+		const validation = validateInviteRequest(await c.req.json());
+		if (!validation.success) {
+			return c.json({ error: validation.error }, 400);
+		}
+
+		await getRegistry(c.env).createInvite(validation.invite);
+		console.log(`Created invite ${validation.invite.code} for ${validation.invite.maxUses} uses`);
+
+		return c.json({ success: true, invite: validation.invite });
+	} catch (error) {
+		console.error('Invite creation error:', error);
+		return c.json({
+			error: "Failed to create invite",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list invite codes
+app.get('/admin/invites', async (c) => {
+	try {
+		return c.json({ invites: await getRegistry(c.env).listInvites() });
+	} catch (error) {
+		console.error('Invite listing error:', error);
+		return c.json({
+			error: "Failed to list invites",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to revoke an invite code
+app.delete('/admin/invites/:code', async (c) => {
+	try {
+		const code = normalizeInviteCode(c.req.param('code'));
+		if (!code || !await getRegistry(c.env).revokeInvite(code)) {
+			return c.json({ error: "Invite not found" }, 404);
+		}
+
+		console.log(`Revoked invite ${code}`);
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Invite revocation error:', error);
+		return c.json({
+			error: "Failed to revoke invite",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list every known account with its registration, usage and health
+app.get('/admin/accounts', async (c) => {
+	try {
+		const authIds = await getRegistry(c.env).listAccounts();
+		const accounts = await Promise.all(authIds.map((authId) =>
+			c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId)).getAdminSummary(authId)
+		));
+		accounts.sort((a, b) => (b.registeredAt || '').localeCompare(a.registeredAt || ''));
+
+		return c.json({ accounts });
+	} catch (error) {
+		console.error('Account listing error:', error);
+		return c.json({
+			error: "Failed to list accounts",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to suspend an account, blocking its uploads and API access
+app.post('/admin/accounts/:authId/suspend', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Suspending account ${authId}`);
+		await c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId)).setSuspended(true);
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Account suspension error:', error);
+		return c.json({
+			error: "Failed to suspend account",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to re-enable a suspended account
+app.post('/admin/accounts/:authId/enable', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Re-enabling account ${authId}`);
+		await c.env.AUTH_DO.get(c.env.AUTH_DO.idFromName(authId)).setSuspended(false);
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Account re-enabling error:', error);
+		return c.json({
+			error: "Failed to re-enable account",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to delete an account
+app.delete('/admin/accounts/:authId', async (c) => {
+	try {
+		const authId = c.req.param('authId');
+		console.log(`Deleting account ${authId} as operator`);
+		await destroyAccount(c.env, authId);
+
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Account deletion error:', error);
+		return c.json({
+			error: "Failed to delete account",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to create a distribution group. Its API token is only shown here.
+app.post('/admin/groups', async (c) => {
+	try {
+		const validation = validateGroupRequest(await c.req.json(), true);
+		if (!validation.success) {
+			return c.json({ error: validation.error }, 400);
+		}
+		const name = validation.name as string;
+		const members = validation.members as string[];
+
+		const unknown = await unknownMembers(c.env, members);
+		if (unknown.length > 0) {
+			return c.json({ error: `Unknown accounts: ${unknown.join(', ')}` }, 400);
+		}
+
+		const created = await createGroup(c.env, name, members, validation.allowedSenders);
+		if (!created) {
+			return c.json({ error: "A group with this name already exists" }, 409);
+		}
+
+		console.log(`Created group ${name} with ${members.length} members`);
+		return c.json({ success: true, group: groupSummary(created.group), token: created.token });
+	} catch (error) {
+		console.error('Group creation error:', error);
+		return c.json({
+			error: "Failed to create group",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list distribution groups
+app.get('/admin/groups', async (c) => {
+	try {
+		const groups = await getRegistry(c.env).listGroups();
+		return c.json({ groups: groups.map(groupSummary) });
+	} catch (error) {
+		console.error('Group listing error:', error);
+		return c.json({
+			error: "Failed to list groups",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to change a group's members or allowed senders
+app.put('/admin/groups/:name', async (c) => {
+	try {
+		const validation = validateGroupRequest(await c.req.json(), false);
+		if (!validation.success) {
+			return c.json({ error: validation.error }, 400);
+		}
+
+		const registry = getRegistry(c.env);
+		const group = await registry.getGroup(c.req.param('name'));
+		if (!group) {
+			return c.json({ error: "Group not found" }, 404);
+		}
+
+		const unknown = await unknownMembers(c.env, validation.members || []);
+		if (unknown.length > 0) {
+			return c.json({ error: `Unknown accounts: ${unknown.join(', ')}` }, 400);
+		}
+
+		const updated = {
+			...group,
+			members: validation.members ?? group.members,
+			allowedSenders: validation.allowedSenders ?? group.allowedSenders,
+		};
+		if (!await registry.updateGroup(updated)) {
+			return c.json({ error: "Group not found" }, 404);
+		}
+
+		console.log(`Updated group ${group.name}, now ${updated.members.length} members`);
+		return c.json({ success: true, group: groupSummary(updated) });
+	} catch (error) {
+		console.error('Group update error:', error);
+		return c.json({
+			error: "Failed to update group",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to issue a new API token for a group, replacing the old one
+app.post('/admin/groups/:name/token', async (c) => {
+	try {
+		const registry = getRegistry(c.env);
+		const group = await registry.getGroup(c.req.param('name'));
+		if (!group) {
+			return c.json({ error: "Group not found" }, 404);
+		}
+
+		const token = generateApiToken();
+		await registry.updateGroup({ ...group, tokenHash: await hashApiToken(token) });
+
+		console.log(`Rotated the API token of group ${group.name}`);
+		return c.json({ success: true, token });
+	} catch (error) {
+		console.error('Group token error:', error);
+		return c.json({
+			error: "Failed to issue group token",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to list the documents recently sent to a group
+app.get('/admin/groups/:name/deliveries', async (c) => {
+	try {
+		const registry = getRegistry(c.env);
+		const group = await registry.getGroup(c.req.param('name'));
+		if (!group) {
+			return c.json({ error: "Group not found" }, 404);
+		}
+
+		const deliveries = await deliveryProgress(c.env, await registry.listGroupDeliveries(group.name));
+		return c.json({ group: groupSummary(group), deliveries });
+	} catch (error) {
+		console.error('Group delivery listing error:', error);
+		return c.json({
+			error: "Failed to list group deliveries",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+// Route to delete a group. Uploads already queued for its members carry on.
+app.delete('/admin/groups/:name', async (c) => {
+	try {
+		const name = c.req.param('name');
+		if (!await getRegistry(c.env).deleteGroup(name)) {
+			return c.json({ error: "Group not found" }, 404);
+		}
+
+		console.log(`Deleted group ${name}`);
+		return c.json({ success: true });
+	} catch (error) {
+		console.error('Group deletion error:', error);
+		return c.json({
+			error: "Failed to delete group",
+			details: error instanceof Error ? error.message : String(error)
+		}, 500);
+	}
+});
+
+export default {
+	fetch: app.fetch,
+
+	async email(message: ForwardableEmailMessage, env: Env, ctx: ExecutionContext): Promise<void> {
+		const parser = new PostalMime.default();
+		const rawEmail = new Response(message.raw);
+		const email = await parser.parse(await rawEmail.arrayBuffer());
+		console.log(`Received email from: ${email.from?.address}, subject: ${email.subject}`);
+
+		// We then make sure we have a `to` address ending in `@send-to-remarkable.zegs.me`, and we extract the first part as the auth ID
+		if (!email.to || email.to.length === 0) {
+			console.error('Email has no "to" address');
+			message.setReject("Email must have a 'to' address");
+			return;
+		}
+		console.log('email.to:', email.to, typeof email.to);
+		// Plus-addressing selects a folder: <alias>+Reading/Papers@domain
+		const localPart = (email.to[0].address || '').split('@')[0];
+		const plusIndex = localPart.indexOf('+');
+		const alias = plusIndex === -1 ? localPart : localPart.slice(0, plusIndex);
+		const addressFolder = plusIndex === -1 ? undefined : localPart.slice(plusIndex + 1);
+
+		// A group's address delivers the attachments to every member
+		const group = alias ? await getRegistry(env).resolveGroupAlias(alias.toLowerCase()) : null;
+		if (group) {
+			console.log(`Email to group ${group.name}`);
+			const rejection = await emailGroup(env, group, email, addressFolder);
+			if (rejection) {
+				console.error(`Rejecting email to group ${group.name}: ${rejection}`);
+				message.setReject(rejection);
+			}
+			return;
+		}
+
+		const authDoId = alias ? await resolveRecipient(env, alias) : null;
+		if (!authDoId) {
+			console.error(`No account found for email alias: ${alias}`);
+			message.setReject("Unknown recipient address");
+			return;
+		}
+
+		if (!email.from?.address) {
+			console.error('Email has no "from" address');
+			message.setReject("Email must have a 'from' address");
+			return;
+		}
+
+		// Only accept mail from authenticated senders on the account's allowlist (if it has one)
+		const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authDoId));
+		const allowedSenders = await authDoStub.getAllowedSenders();
+		const senderCheck = checkSender(email.headers, email.from.address, allowedSenders);
+		if (!senderCheck.allowed) {
+			console.error(`Rejecting email from ${email.from.address}: ${senderCheck.reason}`);
+			message.setReject(`Sender not allowed: ${senderCheck.reason}`);
+			return;
+		}
+
+		// Directives in the subject, e.g. "Q3 results [folder:Work] [pages:1-10]", are options for this email.
+		// Mistakes are bounced so the sender finds out, rather than the document going to the wrong place.
+		const { subject, directives, problems } = parseSubjectDirectives(email.subject || '');
+		if (problems.length > 0) {
+			console.error(`Rejecting email with invalid subject directives: ${problems.join('; ')}`);
+			message.setReject(`Invalid subject directives: ${problems.join('; ')}`);
+			return;
+		}
+		const folder = directives.folder || addressFolder;
+
+		// Documents are named from the account's template, e.g. "{subject} - {filename}",
+		// or the name given in the subject (taken literally, with collisions numbered as usual)
+		const settings = await authDoStub.getSettings();
+		const namingTemplate = directives.name?.replace(/[{}]/g, '') || settings.namingTemplate || DEFAULT_NAMING_TEMPLATE;
+		const namingContext: NamingContext = {
+			subject,
+			sender: email.from.name || email.from.address,
+			date: email.date ? new Date(email.date) : undefined,
+		};
+
+		// With receipts turned on, the sender gets a reply listing each document once its upload has finished
+		const wantsReceipt = !!settings.emailReceipts && !isAutoSubmitted(email.headers);
+		const receiptId = crypto.randomUUID();
+		const sender = email.from.address;
+		let receipt: Receipt | null = null;
+		const openReceipt = async (items: ReceiptItem[]) => {
+			// Nothing to wait for means nothing was queued, and the email is rejected instead
+			if (wantsReceipt && items.some((item) => item.status === 'pending')) {
+				await authDoStub.openReceipt({
+					id: receiptId,
+					from: message.to,
+					to: sender,
+					subject: email.subject || '',
+					messageId: email.messageId,
+					createdAt: new Date().toISOString(),
+					items,
+				});
+			}
+		};
+		const settleReceipt = async (index: number, update: Partial<ReceiptItem>) => {
+			if (wantsReceipt) {
+				receipt = await authDoStub.settleReceiptItem(receiptId, index, update) || receipt;
+			}
+		};
+		// Sent here when nothing was queued; otherwise the last workflow to finish sends it
+		const finishReceipt = () => {
+			if (receipt) {
+				ctx.waitUntil(sendReceipt(env, receipt).catch((error) => console.error('Failed to send receipt:', error)));
+			}
+		};
+		// A rejected email bounces, which tells the sender instead, so its receipt is dropped
+		const rejectEmail = async (reason: string) => {
+			if (wantsReceipt) {
+				await authDoStub.discardReceipt(receiptId);
+				receipt = null;
+			}
+			message.setReject(reason);
+		};
+
+		// Images embedded in the body aren't documents of their own
+		const attachments = (email.attachments || []).filter((attachment) => !isInlineImage(attachment));
+
+		// Without attachments, fall back to fetching documents linked in the body,
+		// and failing that, convert the body itself into an EPUB (newsletter mode)
+		if (attachments.length === 0) {
+			const links = extractLinks(email.text || '').slice(0, MAX_EMAIL_LINKS);
+			let documents: File[] = [];
+			for (const link of links) {
+				const fetched = await fetchDocument(link);
+				if (!fetched.success) {
+					console.log(`Skipping link ${link}: ${fetched.error}`);
+					continue;
+				}
+				documents.push(fetched.file);
+			}
+
+			if (directives.merge) {
+				try {
+					documents = (await mergeDocuments(documents.map((file) => ({ file })))).map((document) => document.file);
+				} catch (error) {
+					console.error('Could not merge linked documents:', error);
+					message.setReject(`Could not merge the linked documents: ${error instanceof Error ? error.message : String(error)}`);
+					return;
+				}
+			}
+
+			const names = nameAttachments(namingTemplate, namingContext, documents.map((document) => document.name));
+			await openReceipt(documents.map((document) => ({ attachment: document.name, status: 'pending' })));
+			let uploaded = 0;
+			for (const [i, document] of documents.entries()) {
+				const result = await uploadFile(env, document, authDoId, email.from.address, {
+					folder,
+					name: names[i],
+					pages: directives.pages,
+					receipt: wantsReceipt ? { id: receiptId, index: i } : undefined,
+				});
+				await settleReceipt(i, receiptUpdate(result));
+				if (!result.success && result.code === 'rate_limited') {
+					console.error(`Rate limited: ${result.error}`);
+					if (uploaded === 0) {
+						await rejectEmail(`${result.error}, please try again later`);
+						return;
+					}
+					// The documents that weren't tried are reported as rejected too
+					for (let skipped = i + 1; skipped < documents.length; skipped++) {
+						await settleReceipt(skipped, { status: 'rejected', error: result.error });
+					}
+					break;
+				}
+				if (!result.success) {
+					console.log(`Skipping ${document.name}: ${result.error}`);
+					continue;
+				}
+				uploaded++;
+			}
+
+			if (uploaded > 0) {
+				finishReceipt();
+				return;
+			}
+
+			if (!hasConvertibleBody(email)) {
+				console.error('Email has no attachments, document links or body');
+				await rejectEmail("Email must contain an attachment, a link to a PDF or EPUB, or a message body");
+				return;
+			}
+
+			console.log('Converting email body to EPUB');
+			const epub = emailToEpub({ ...email, subject });
+			await openReceipt([{ attachment: epub.name, status: 'pending' }]);
+			const result = await uploadFile(env, epub, authDoId, email.from.address, { folder, receipt: wantsReceipt ? { id: receiptId, index: 0 } : undefined });
+			await settleReceipt(0, receiptUpdate(result));
+			if (!result.success) {
+				await rejectEmail(`Failed to convert email: ${result.error}`);
+				return;
+			}
+			finishReceipt();
+			return;
+		}
+
+		// ZIP attachments are unpacked into the documents they contain, images are converted to PDF on upload
+		const files = attachments.map((attachment) => new File([attachment.content], attachment.filename || 'attachment', {
+			type: attachment.mimeType || 'application/octet-stream'
+		}));
+		const expansion = await expandArchives(files, settings.archiveFolders ?? false, settings.maxFileSize ?? DEFAULT_MAX_FILE_SIZE);
+		// [merge] makes one document of all the PDFs and images; otherwise photos of
+		// a whiteboard or the pages of a scan can still arrive as one document
+		if (directives.merge) {
+			try {
+				expansion.documents = await mergeDocuments(expansion.documents);
+			} catch (error) {
+				console.error('Could not merge attachments:', error);
+				message.setReject(`Could not merge the attachments: ${error instanceof Error ? error.message : String(error)}`);
+				return;
+			}
+		} else if (settings.combineImages) {
+			expansion.documents = await combineImages(expansion.documents);
+		}
+
+		// Process each document, dropping the ones that aren't supported
+		const rejections = expansion.failures.map((failure) => failure.error);
+		let uploaded = 0;
+		let rateLimit: string | undefined;
+		const names = nameAttachments(namingTemplate, namingContext, expansion.documents.map((document) => document.file.name));
+		// The receipt lists the parts of archives that were turned away first, then the documents
+		const offset = expansion.failures.length;
+		await openReceipt([
+			...expansion.failures.map((failure): ReceiptItem => ({ attachment: failure.fileName, status: 'rejected', error: failure.error })),
+			...expansion.documents.map((document): ReceiptItem => ({ attachment: document.file.name, status: 'pending' })),
+		]);
+		for (const [i, document] of expansion.documents.entries()) {
+			console.log(`Processing attachment: ${document.file.name} as "${names[i]}"`);
+			// We run the upload workflow for each document
+			const result = await uploadFile(env, document.file, authDoId, email.from.address, {
+				folder,
+				name: names[i],
+				subfolder: document.subfolder,
+				pages: directives.pages,
+				receipt: wantsReceipt ? { id: receiptId, index: offset + i } : undefined,
+			});
+			await settleReceipt(offset + i, receiptUpdate(result));
+			if (!result.success) {
+				rejections.push(`${document.file.name}: ${result.error}`);
+				if (result.code === 'rate_limited') {
+					rateLimit = result.error;
+				}
+				continue;
+			}
+			uploaded++;
+		}
+
+		if (uploaded === 0 && rateLimit) {
+			console.error('Rate limited:', rejections);
+			await rejectEmail(`${rateLimit}, please try again later`);
+		} else if (uploaded === 0) {
+			console.error('No attachments could be uploaded:', rejections);
+			await rejectEmail(`No supported attachments (${rejections.join('; ')})`);
+		} else if (rejections.length > 0) {
+			console.log('Some attachments were dropped:', rejections);
+		}
+		if (uploaded > 0) {
+			finishReceipt();
+		}
+	},
+
+	// Hourly cron trigger: send the feed digests that are due this hour
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		const now = new Date(controller.scheduledTime);
+		const authIds = await getRegistry(env).listFeedAccounts();
+		console.log(`Checking feed digests for ${authIds.length} accounts at ${now.toISOString()}`);
+
+		ctx.waitUntil(sendScheduledDigests(env, authIds, now));
 	},
 }
 
 // Export the classes for the runtime
-export { AuthDO, RemarkableUploadWorkflow };
+export { AuthDO, RegistryDO, RemarkableUploadWorkflow };
@@ -0,0 +1,60 @@
+// Operator-issued invite codes, for instances where open signup is disabled
+
+import { Invite } from "./types";
+import { randomHex } from "./crypto-utils";
+
+const MAX_INVITE_USES = 1000;
+const MAX_INVITE_DAYS = 365;
+const MAX_NOTE_LENGTH = 200;
+
+export type InviteValidation =
+	| { success: true; invite: Invite }
+	| { success: false; error: string };
+
+/**
+ * Generate a new invite code
+ */
+export function generateInviteCode(): string {
+	return randomHex(8);
+}
+
+/**
+ * Normalise an invite code as typed by a user
+ */
+export function normalizeInviteCode(code: unknown): string | null {
+	return typeof code === "string" && code.trim() ? code.trim().toLowerCase() : null;
+}
+
+/**
+ * Validate a request to create an invite, returning the invite to store.
+ * `maxUses` defaults to 1 and `expiresInDays` to never.
+ */
+export function validateInviteRequest(body: unknown): InviteValidation {
+	if (typeof body !== "object" || body === null || Array.isArray(body)) {
+		return { success: false, error: "Invite must be a JSON object" };
+	}
+	const { maxUses = 1, expiresInDays, note } = body as Record<string, unknown>;
+
+	if (typeof maxUses !== "number" || !Number.isInteger(maxUses) || maxUses < 1 || maxUses > MAX_INVITE_USES) {
+		return { success: false, error: `maxUses must be a whole number from 1 to ${MAX_INVITE_USES}` };
+	}
+	if (expiresInDays !== undefined && (typeof expiresInDays !== "number" || !(expiresInDays > 0) || expiresInDays > MAX_INVITE_DAYS)) {
+		return { success: false, error: `expiresInDays must be a number of days up to ${MAX_INVITE_DAYS}` };
+	}
+	if (note !== undefined && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+		return { success: false, error: `note must be a string of at most ${MAX_NOTE_LENGTH} characters` };
+	}
+
+	const now = Date.now();
+	return {
+		success: true,
+		invite: {
+			code: generateInviteCode(),
+			maxUses,
+			uses: 0,
+			createdAt: new Date(now).toISOString(),
+			expiresAt: expiresInDays !== undefined ? new Date(now + (expiresInDays as number) * 24 * 60 * 60 * 1000).toISOString() : undefined,
+			note: note as string | undefined,
+		},
+	};
+}
@@ -0,0 +1,77 @@
+// Document naming for email uploads
+
+export const DEFAULT_NAMING_TEMPLATE = "{subject}";
+export const NAMING_PLACEHOLDERS = ["subject", "filename", "sender", "date", "index"] as const;
+
+const FALLBACK_NAME = "send to remarkable upload";
+
+export interface NamingContext {
+	subject?: string;
+	sender?: string;
+	date?: Date;
+}
+
+/**
+ * Find placeholders in a template that aren't supported
+ */
+export function unknownPlaceholders(template: string): string[] {
+	const found = [...template.matchAll(/\{([^{}]*)\}/g)].map((match) => match[1]);
+	return found.filter((name) => !(NAMING_PLACEHOLDERS as readonly string[]).includes(name));
+}
+
+/**
+ * Strip the extension from a filename
+ */
+function baseName(filename: string): string {
+	return filename.replace(/\.[^./\\]{1,5}$/, "");
+}
+
+/**
+ * Fill in a naming template, collapsing whitespace and separators left behind by empty placeholders
+ */
+export function renderName(template: string, context: NamingContext, filename: string, index: number): string {
+	const values: Record<string, string> = {
+		subject: context.subject?.trim() || "",
+		filename: baseName(filename.trim()),
+		sender: context.sender?.trim() || "",
+		date: (context.date || new Date()).toISOString().slice(0, 10),
+		index: String(index),
+	};
+
+	return template
+		.replace(/\{([a-z]+)\}/g, (match, name: string) => values[name] ?? match)
+		.replace(/\s+/g, " ")
+		.replace(/^[\s\-_–,:|]+|[\s\-_–,:|]+$/g, "")
+		.trim();
+}
+
+/**
+ * Name every attachment of an email. Empty names fall back to the filename, and names that
+ * would collide get the filename appended, then a counter if they still aren't unique.
+ */
+export function nameAttachments(template: string, context: NamingContext, filenames: string[]): string[] {
+	const names = filenames.map((filename, i) =>
+		renderName(template, context, filename, i + 1) || baseName(filename) || context.subject?.trim() || FALLBACK_NAME
+	);
+
+	const count = (name: string, list: string[]) => list.filter((other) => other === name).length;
+
+	const usesFilename = template.includes("{filename}");
+	const withFilenames = names.map((name, i) => {
+		const filename = baseName(filenames[i]);
+		if (count(name, names) > 1 && filename && !usesFilename && name !== filename) {
+			return `${name} - ${filename}`;
+		}
+		return name;
+	});
+
+	const seen = new Map<string, number>();
+	return withFilenames.map((name) => {
+		if (count(name, withFilenames) === 1) {
+			return name;
+		}
+		const occurrence = (seen.get(name) || 0) + 1;
+		seen.set(name, occurrence);
+		return occurrence === 1 ? name : `${name} (${occurrence})`;
+	});
+}
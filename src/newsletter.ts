@@ -0,0 +1,97 @@
+import type { Attachment, Email } from "postal-mime";
+import { buildEpub, EpubImage } from "./epub";
+import { decodeEntities, htmlToXhtml, textToXhtml } from "./html-to-xhtml";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+	"image/jpeg": "jpg",
+	"image/png": "png",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"image/svg+xml": "svg",
+};
+
+/**
+ * Whether an attachment is an image embedded in the HTML body rather than a document in its own right
+ */
+export function isInlineImage(attachment: Attachment): boolean {
+	return !!attachment.contentId
+		&& attachment.mimeType.startsWith("image/")
+		&& (attachment.related === true || attachment.disposition === "inline");
+}
+
+/**
+ * Whether an email has a body worth converting
+ */
+export function hasConvertibleBody(email: Email): boolean {
+	return !!(email.html?.trim() || email.text?.trim());
+}
+
+/**
+ * Package an email's body and inline images as an EPUB named after the subject
+ */
+export function emailToEpub(email: Email): File {
+	const title = email.subject?.trim() || "Untitled email";
+	const author = email.from?.name || email.from?.address || "Unknown sender";
+	const encoder = new TextEncoder();
+
+	// Inline images are referenced from the HTML as cid:<content-id>
+	const images: EpubImage[] = [];
+	const imagesByContentId = new Map<string, string>();
+	for (const attachment of email.attachments || []) {
+		const extension = IMAGE_EXTENSIONS[attachment.mimeType];
+		if (!isInlineImage(attachment) || !extension) {
+			continue;
+		}
+		const href = `images/image-${images.length + 1}.${extension}`;
+		const content = attachment.content;
+		images.push({
+			href,
+			mediaType: attachment.mimeType,
+			data: typeof content === "string" ? encoder.encode(content) : new Uint8Array(content),
+		});
+		imagesByContentId.set(attachment.contentId!.replace(/^<|>$/g, "").toLowerCase(), href);
+	}
+
+	const resolveImage = (src: string): string | null => {
+		if (!src.toLowerCase().startsWith("cid:")) {
+			return null;
+		}
+		return imagesByContentId.get(src.slice(4).replace(/^<|>$/g, "").toLowerCase()) || null;
+	};
+
+	const body = email.html ? htmlToXhtml(email.html, resolveImage) : textToXhtml(email.text || "");
+
+	// Only package the images the body actually uses
+	const usedImages = images.filter((image) => body.includes(`src="${image.href}"`));
+
+	const date = email.date ? new Date(email.date) : new Date();
+	const epub = buildEpub({
+		title,
+		author,
+		date: isNaN(date.getTime()) ? new Date() : date,
+		chapters: [{ title, body }],
+		images: usedImages,
+	});
+
+	return new File([epub], title, { type: "application/epub+zip" });
+}
+
+/**
+ * Package a web page as an EPUB named after its title. Only the article (or main content)
+ * is kept when the page marks it up, and images are left out since they live elsewhere.
+ */
+export function pageToEpub(html: string, url: URL): File {
+	const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+	const title = (titleMatch ? decodeEntities(titleMatch[1]).replace(/\s+/g, " ").trim() : "") || url.hostname;
+	const content = html.match(/<article\b[^>]*>[\s\S]*<\/article>/i)?.[0]
+		|| html.match(/<main\b[^>]*>[\s\S]*<\/main>/i)?.[0]
+		|| html;
+
+	const epub = buildEpub({
+		title,
+		author: url.hostname,
+		chapters: [{ title, body: htmlToXhtml(content, () => null) }],
+	});
+
+	return new File([epub], title, { type: "application/epub+zip" });
+}
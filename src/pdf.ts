@@ -0,0 +1,914 @@
+// Reading PDFs and writing new ones from some of their pages, to keep page ranges and merge documents
+
+import { imagesToPdf, sniffImageType, unfilterPng } from "./image-pdf";
+import { sniffDocumentType } from "./validation";
+import type { ExpandedDocument } from "./archive";
+import type { PageRange } from "./directives";
+
+export type PdfObject = null | boolean | number | PdfName | PdfString | PdfRef | PdfObject[] | PdfDict | PdfStream;
+
+// Names and strings keep their source bytes (one character per byte), so they are written back unchanged
+export interface PdfName { kind: "name"; name: string }
+export interface PdfString { kind: "string"; raw: string }
+export interface PdfRef { kind: "ref"; num: number; gen: number }
+export interface PdfDict { kind: "dict"; entries: Map<string, PdfObject> }
+export interface PdfStream { kind: "stream"; dict: PdfDict; data: Uint8Array }
+
+type XrefEntry = { offset: number } | { stream: number; index: number };
+
+interface PdfDocument {
+	bytes: Uint8Array;
+	xref: Map<number, XrefEntry>;
+	trailer: PdfDict;
+	cache: Map<number, PdfObject>;
+	// Objects being parsed, so a stream whose /Length refers back to itself can't loop
+	loading: Set<number>;
+}
+
+interface PdfPage {
+	ref: PdfRef;
+	// The page's dictionary with inherited attributes filled in
+	dict: PdfDict;
+}
+
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set([..."()<>[]{}/%"].map((char) => char.charCodeAt(0)));
+const INHERITED_PAGE_KEYS = ["Resources", "MediaBox", "CropBox", "Rotate"];
+const MAX_PAGE_TREE_DEPTH = 64;
+
+/**
+ * Bytes as a string with one character per byte. TextDecoder's "latin1" is really windows-1252,
+ * which doesn't round-trip.
+ */
+function latin1(bytes: Uint8Array): string {
+	let text = "";
+	for (let i = 0; i < bytes.length; i += 8192) {
+		text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+	}
+	return text;
+}
+
+function indexOfBytes(bytes: Uint8Array, pattern: string, from = 0): number {
+	const first = pattern.charCodeAt(0);
+	for (let i = bytes.indexOf(first, from); i !== -1 && i <= bytes.length - pattern.length; i = bytes.indexOf(first, i + 1)) {
+		let match = true;
+		for (let j = 1; j < pattern.length && match; j++) {
+			match = bytes[i + j] === pattern.charCodeAt(j);
+		}
+		if (match) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+function lastIndexOfBytes(bytes: Uint8Array, pattern: string): number {
+	for (let i = bytes.length - pattern.length; i >= 0; i--) {
+		let match = true;
+		for (let j = 0; j < pattern.length && match; j++) {
+			match = bytes[i + j] === pattern.charCodeAt(j);
+		}
+		if (match) {
+			return i;
+		}
+	}
+	return -1;
+}
+
+const name = (value: string): PdfName => ({ kind: "name", name: value });
+const ref = (num: number, gen = 0): PdfRef => ({ kind: "ref", num, gen });
+const dict = (entries: [string, PdfObject][] = []): PdfDict => ({ kind: "dict", entries: new Map(entries) });
+
+function isKind<K extends "name" | "string" | "ref" | "dict" | "stream">(value: PdfObject, kind: K): value is Extract<PdfObject, { kind: K }> {
+	return typeof value === "object" && value !== null && !Array.isArray(value) && value.kind === kind;
+}
+
+// Parsing
+
+interface Lexer {
+	bytes: Uint8Array;
+	pos: number;
+}
+
+function skipWhitespace(lexer: Lexer) {
+	const { bytes } = lexer;
+	while (lexer.pos < bytes.length) {
+		const byte = bytes[lexer.pos];
+		if (WHITESPACE.has(byte)) {
+			lexer.pos++;
+		} else if (byte === 0x25) {
+			// Comments run to the end of the line
+			while (lexer.pos < bytes.length && bytes[lexer.pos] !== 0x0a && bytes[lexer.pos] !== 0x0d) {
+				lexer.pos++;
+			}
+		} else {
+			break;
+		}
+	}
+}
+
+function readToken(lexer: Lexer): string {
+	const start = lexer.pos;
+	while (lexer.pos < lexer.bytes.length && !WHITESPACE.has(lexer.bytes[lexer.pos]) && !DELIMITERS.has(lexer.bytes[lexer.pos])) {
+		lexer.pos++;
+	}
+	return latin1(lexer.bytes.subarray(start, lexer.pos));
+}
+
+function readLiteralString(lexer: Lexer): PdfString {
+	const { bytes } = lexer;
+	const start = lexer.pos;
+	let depth = 0;
+	while (lexer.pos < bytes.length) {
+		const byte = bytes[lexer.pos++];
+		if (byte === 0x5c) {
+			lexer.pos++;
+		} else if (byte === 0x28) {
+			depth++;
+		} else if (byte === 0x29 && --depth === 0) {
+			return { kind: "string", raw: latin1(bytes.subarray(start, lexer.pos)) };
+		}
+	}
+	throw new Error("Unterminated string");
+}
+
+/**
+ * Parse the value at the lexer's position. Streams are only recognised by parseIndirect.
+ */
+function parseValue(lexer: Lexer): PdfObject {
+	skipWhitespace(lexer);
+	const { bytes } = lexer;
+	const byte = bytes[lexer.pos];
+	if (byte === undefined) {
+		throw new Error("Unexpected end of file");
+	}
+
+	if (byte === 0x2f) {
+		lexer.pos++;
+		return name(readToken(lexer));
+	}
+	if (byte === 0x28) {
+		return readLiteralString(lexer);
+	}
+	if (byte === 0x3c && bytes[lexer.pos + 1] === 0x3c) {
+		lexer.pos += 2;
+		const entries = new Map<string, PdfObject>();
+		for (;;) {
+			skipWhitespace(lexer);
+			if (bytes[lexer.pos] === 0x3e && bytes[lexer.pos + 1] === 0x3e) {
+				lexer.pos += 2;
+				return { kind: "dict", entries };
+			}
+			const key = parseValue(lexer);
+			if (!isKind(key, "name")) {
+				throw new Error("Dictionary key is not a name");
+			}
+			entries.set(key.name, parseValue(lexer));
+		}
+	}
+	if (byte === 0x3c) {
+		const end = bytes.indexOf(0x3e, lexer.pos);
+		if (end === -1) {
+			throw new Error("Unterminated hex string");
+		}
+		const raw = latin1(bytes.subarray(lexer.pos, end + 1));
+		lexer.pos = end + 1;
+		return { kind: "string", raw };
+	}
+	if (byte === 0x5b) {
+		lexer.pos++;
+		const items: PdfObject[] = [];
+		for (;;) {
+			skipWhitespace(lexer);
+			if (bytes[lexer.pos] === 0x5d) {
+				lexer.pos++;
+				return items;
+			}
+			items.push(parseValue(lexer));
+		}
+	}
+
+	const token = readToken(lexer);
+	if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+		const value = Number(token);
+		// An indirect reference looks like two integers and an R
+		if (/^\d+$/.test(token)) {
+			const saved = lexer.pos;
+			skipWhitespace(lexer);
+			const gen = readToken(lexer);
+			if (/^\d+$/.test(gen)) {
+				skipWhitespace(lexer);
+				if (bytes[lexer.pos] === 0x52 && (lexer.pos + 1 >= bytes.length || WHITESPACE.has(bytes[lexer.pos + 1]) || DELIMITERS.has(bytes[lexer.pos + 1]))) {
+					lexer.pos++;
+					return ref(value, Number(gen));
+				}
+			}
+			lexer.pos = saved;
+		}
+		return value;
+	}
+	if (token === "true" || token === "false") {
+		return token === "true";
+	}
+	if (token === "null") {
+		return null;
+	}
+	throw new Error(`Unexpected "${token || String.fromCharCode(byte)}" at offset ${lexer.pos}`);
+}
+
+/**
+ * Parse the indirect object ("12 0 obj ... endobj") at an offset
+ */
+function parseIndirect(doc: PdfDocument, offset: number, expectedNum?: number): PdfObject {
+	const lexer: Lexer = { bytes: doc.bytes, pos: offset };
+	skipWhitespace(lexer);
+	const num = Number(readToken(lexer));
+	skipWhitespace(lexer);
+	readToken(lexer);
+	skipWhitespace(lexer);
+	if (readToken(lexer) !== "obj" || (expectedNum !== undefined && num !== expectedNum)) {
+		throw new Error(`No object ${expectedNum ?? ""} at offset ${offset}`);
+	}
+
+	const value = parseValue(lexer);
+	skipWhitespace(lexer);
+	if (!isKind(value, "dict") || readToken(lexer) !== "stream") {
+		return value;
+	}
+
+	// Stream data starts after the end of line following the keyword
+	if (doc.bytes[lexer.pos] === 0x0d) {
+		lexer.pos++;
+	}
+	if (doc.bytes[lexer.pos] === 0x0a) {
+		lexer.pos++;
+	}
+	const start = lexer.pos;
+
+	const length = resolve(doc, value.entries.get("Length") ?? null);
+	if (typeof length === "number" && length >= 0 && start + length <= doc.bytes.length) {
+		const after: Lexer = { bytes: doc.bytes, pos: start + length };
+		skipWhitespace(after);
+		if (readToken(after) === "endstream") {
+			return { kind: "stream", dict: value, data: doc.bytes.subarray(start, start + length) };
+		}
+	}
+
+	// A missing or wrong length: the data runs to the endstream keyword, less its end of line
+	let end = indexOfBytes(doc.bytes, "endstream", start);
+	if (end === -1) {
+		throw new Error("Unterminated stream");
+	}
+	if (doc.bytes[end - 1] === 0x0a) {
+		end--;
+	}
+	if (doc.bytes[end - 1] === 0x0d) {
+		end--;
+	}
+	return { kind: "stream", dict: value, data: doc.bytes.subarray(start, end) };
+}
+
+function getObject(doc: PdfDocument, num: number): PdfObject {
+	if (doc.cache.has(num)) {
+		return doc.cache.get(num)!;
+	}
+	const entry = doc.xref.get(num);
+	if (!entry || !("offset" in entry) || doc.loading.has(num)) {
+		return null;
+	}
+
+	doc.loading.add(num);
+	try {
+		const value = parseIndirect(doc, entry.offset, num);
+		doc.cache.set(num, value);
+		return value;
+	} finally {
+		doc.loading.delete(num);
+	}
+}
+
+function resolve(doc: PdfDocument, value: PdfObject): PdfObject {
+	return isKind(value, "ref") ? getObject(doc, value.num) : value;
+}
+
+function resolveDict(doc: PdfDocument, value: PdfObject): PdfDict | null {
+	const resolved = resolve(doc, value);
+	return isKind(resolved, "dict") ? resolved : isKind(resolved, "stream") ? resolved.dict : null;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate"));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decode a stream's data. Only FlateDecode (with PNG predictors) is needed for the structural
+ * streams this reads; page content is copied as it is.
+ */
+async function decodeStream(doc: PdfDocument, stream: PdfStream): Promise<Uint8Array> {
+	const filter = resolve(doc, stream.dict.entries.get("Filter") ?? null);
+	const filters = (Array.isArray(filter) ? filter : filter === null ? [] : [filter]).map((value) => resolve(doc, value));
+	const parameters = resolve(doc, stream.dict.entries.get("DecodeParms") ?? null);
+
+	let data = stream.data;
+	for (const [i, value] of filters.entries()) {
+		if (!isKind(value, "name") || (value.name !== "FlateDecode" && value.name !== "Fl")) {
+			throw new Error(`Unsupported stream filter ${isKind(value, "name") ? value.name : "?"}`);
+		}
+		data = await inflate(data);
+
+		const parms = resolveDict(doc, Array.isArray(parameters) ? parameters[i] : parameters);
+		const predictor = parms ? resolve(doc, parms.entries.get("Predictor") ?? null) : null;
+		if (typeof predictor === "number" && predictor >= 10) {
+			const columns = resolve(doc, parms!.entries.get("Columns") ?? null);
+			const colors = resolve(doc, parms!.entries.get("Colors") ?? null);
+			const bits = resolve(doc, parms!.entries.get("BitsPerComponent") ?? null);
+			const bytesPerPixel = Math.max(1, ((typeof colors === "number" ? colors : 1) * (typeof bits === "number" ? bits : 8)) / 8);
+			const width = typeof columns === "number" ? columns : 1;
+			data = unfilterPng(data, width, Math.floor(data.length / (width * bytesPerPixel + 1)), bytesPerPixel);
+		} else if (typeof predictor === "number" && predictor > 1) {
+			throw new Error(`Unsupported predictor ${predictor}`);
+		}
+	}
+	return data;
+}
+
+// Cross-reference tables
+
+/**
+ * Read the next token, which must be an unsigned whole number. An empty token (at the end of
+ * the file or at a delimiter) is an error too, so a broken table can't be read forever.
+ */
+function readInteger(lexer: Lexer): number {
+	skipWhitespace(lexer);
+	const token = readToken(lexer);
+	if (!/^\d+$/.test(token)) {
+		throw new Error("Invalid xref table");
+	}
+	return Number(token);
+}
+
+/**
+ * Read a classic xref table and its trailer at an offset
+ */
+function readXrefTable(doc: PdfDocument, lexer: Lexer): PdfDict {
+	for (;;) {
+		skipWhitespace(lexer);
+		const position = lexer.pos;
+		const token = readToken(lexer);
+		if (token === "trailer") {
+			const trailer = parseValue(lexer);
+			if (!isKind(trailer, "dict")) {
+				throw new Error("Invalid trailer");
+			}
+			return trailer;
+		}
+		if (!/^\d+$/.test(token) || lexer.pos === position) {
+			throw new Error("Invalid xref table");
+		}
+
+		const start = Number(token);
+		const count = readInteger(lexer);
+		for (let i = 0; i < count; i++) {
+			const offset = readInteger(lexer);
+			readInteger(lexer);
+			skipWhitespace(lexer);
+			const type = readToken(lexer);
+			if (type !== "n" && type !== "f") {
+				throw new Error("Invalid xref table");
+			}
+			// Newer sections are read first and take precedence
+			if (type === "n" && !doc.xref.has(start + i)) {
+				doc.xref.set(start + i, { offset });
+			}
+		}
+	}
+}
+
+function isCount(value: unknown): value is number {
+	return Number.isSafeInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Read a cross-reference stream (PDF 1.5), returning its dictionary as the trailer
+ */
+async function readXrefStream(doc: PdfDocument, offset: number): Promise<PdfDict> {
+	const stream = parseIndirect(doc, offset);
+	if (!isKind(stream, "stream")) {
+		throw new Error("Invalid xref stream");
+	}
+	const data = await decodeStream(doc, stream);
+
+	const widths = stream.dict.entries.get("W");
+	const size = stream.dict.entries.get("Size");
+	if (!Array.isArray(widths) || widths.length < 3 || !widths.every(isCount) || !isCount(size)) {
+		throw new Error("Invalid xref stream");
+	}
+	const [typeWidth, fieldWidth, indexWidth] = widths as number[];
+	const entryWidth = typeWidth + fieldWidth + indexWidth;
+	if (entryWidth === 0) {
+		throw new Error("Invalid xref stream widths");
+	}
+	const index = stream.dict.entries.get("Index") ?? [0, size];
+	if (!Array.isArray(index) || index.length % 2 !== 0 || !index.every(isCount)) {
+		throw new Error("Invalid xref stream index");
+	}
+	const sections = index as number[];
+
+	const field = (position: number, width: number, fallback: number) => {
+		if (width === 0) {
+			return fallback;
+		}
+		let value = 0;
+		for (let i = 0; i < width; i++) {
+			value = value * 256 + data[position + i];
+		}
+		return value;
+	};
+
+	let position = 0;
+	for (let section = 0; section < sections.length; section += 2) {
+		// A section can't hold more entries than the file has objects or the stream has bytes for
+		const count = Math.min(sections[section + 1], size, Math.floor((data.length - position) / entryWidth));
+		for (let i = 0; i < count; i++, position += entryWidth) {
+			const num = sections[section] + i;
+			const type = field(position, typeWidth, 1);
+			const second = field(position + typeWidth, fieldWidth, 0);
+			const third = field(position + typeWidth + fieldWidth, indexWidth, 0);
+			if (doc.xref.has(num)) {
+				continue;
+			}
+			if (type === 1) {
+				doc.xref.set(num, { offset: second });
+			} else if (type === 2) {
+				doc.xref.set(num, { stream: second, index: third });
+			}
+		}
+	}
+	return stream.dict;
+}
+
+/**
+ * Follow the chain of cross-reference sections from startxref, newest first
+ */
+async function readXref(doc: PdfDocument): Promise<PdfDict> {
+	const startxref = lastIndexOfBytes(doc.bytes.subarray(Math.max(0, doc.bytes.length - 2048)), "startxref");
+	if (startxref === -1) {
+		throw new Error("No startxref");
+	}
+	const lexer: Lexer = { bytes: doc.bytes, pos: Math.max(0, doc.bytes.length - 2048) + startxref + 9 };
+	skipWhitespace(lexer);
+	let offset: number | null = Number(readToken(lexer));
+
+	let trailer: PdfDict | null = null;
+	const visited = new Set<number>();
+	while (offset !== null && Number.isInteger(offset) && !visited.has(offset)) {
+		visited.add(offset);
+		const section: Lexer = { bytes: doc.bytes, pos: offset };
+		skipWhitespace(section);
+
+		let sectionTrailer: PdfDict;
+		if (readToken(section) === "xref") {
+			sectionTrailer = readXrefTable(doc, section);
+			// Hybrid files list their compressed objects in an extra xref stream
+			const stream = sectionTrailer.entries.get("XRefStm");
+			if (typeof stream === "number") {
+				await readXrefStream(doc, stream);
+			}
+		} else {
+			sectionTrailer = await readXrefStream(doc, offset);
+		}
+
+		trailer ??= sectionTrailer;
+		const previous = sectionTrailer.entries.get("Prev");
+		offset = typeof previous === "number" ? previous : null;
+	}
+
+	if (!trailer) {
+		throw new Error("No xref");
+	}
+	return trailer;
+}
+
+function isType(value: PdfObject, type: string): boolean {
+	const dictionary = isKind(value, "stream") ? value.dict : value;
+	const found = isKind(dictionary, "dict") ? dictionary.entries.get("Type") ?? null : null;
+	return isKind(found, "name") && found.name === type;
+}
+
+/**
+ * Rebuild the cross-reference table of a damaged file by finding every "n g obj" in it.
+ * The trailer is the last one in the file, or failing that the last xref stream's dictionary;
+ * if neither is there the Root is left for loadPdf to find.
+ */
+function reconstructXref(doc: PdfDocument): PdfDict {
+	doc.xref.clear();
+	doc.cache.clear();
+	const text = latin1(doc.bytes);
+
+	for (const match of text.matchAll(/(?<![\d])(\d+)\s+\d+\s+obj\b/g)) {
+		doc.xref.set(Number(match[1]), { offset: match.index! });
+	}
+
+	// The last trailer wins, as it would in an incrementally updated file
+	const trailerAt = text.lastIndexOf("trailer");
+	if (trailerAt !== -1) {
+		try {
+			const trailer = parseValue({ bytes: doc.bytes, pos: trailerAt + 7 });
+			if (isKind(trailer, "dict") && trailer.entries.has("Root")) {
+				return trailer;
+			}
+		} catch {
+			// Fall back to looking for the catalog
+		}
+	}
+
+	let trailer = dict();
+	for (const [num] of doc.xref) {
+		try {
+			const value = getObject(doc, num);
+			if (isKind(value, "stream") && isType(value, "XRef") && value.dict.entries.has("Root")) {
+				trailer = value.dict;
+			}
+		} catch {
+			// Skip objects that don't parse
+		}
+	}
+	return trailer;
+}
+
+/**
+ * Find the catalog among all the objects, for a damaged file without a trailer
+ */
+function findCatalog(doc: PdfDocument): PdfRef | null {
+	for (const num of new Set([...doc.xref.keys(), ...doc.cache.keys()])) {
+		try {
+			if (isType(getObject(doc, num), "Catalog")) {
+				return ref(num);
+			}
+		} catch {
+			// Skip objects that don't parse
+		}
+	}
+	return null;
+}
+
+/**
+ * Parse the objects in object streams into the cache. For a rebuilt xref, every object
+ * stream is read and its objects fill in whatever wasn't found in the file itself.
+ */
+async function loadObjectStreams(doc: PdfDocument, reconstructed: boolean) {
+	const streams = new Set<number>();
+	for (const [num, entry] of doc.xref) {
+		if ("stream" in entry) {
+			streams.add(entry.stream);
+		} else if (reconstructed) {
+			try {
+				if (isType(getObject(doc, num), "ObjStm")) {
+					streams.add(num);
+				}
+			} catch {
+				// Skip objects that don't parse
+			}
+		}
+	}
+
+	for (const streamNum of streams) {
+		const stream = getObject(doc, streamNum);
+		if (!isKind(stream, "stream")) {
+			continue;
+		}
+		const data = await decodeStream(doc, stream);
+		const count = resolve(doc, stream.dict.entries.get("N") ?? null);
+		const first = resolve(doc, stream.dict.entries.get("First") ?? null);
+		if (typeof count !== "number" || typeof first !== "number") {
+			continue;
+		}
+
+		const header: Lexer = { bytes: data, pos: 0 };
+		for (let i = 0; i < count; i++) {
+			const num = parseValue(header);
+			const offset = parseValue(header);
+			if (typeof num !== "number" || typeof offset !== "number") {
+				break;
+			}
+			const entry = doc.xref.get(num);
+			const listed = entry && "stream" in entry && entry.stream === streamNum;
+			if (listed || (reconstructed && !entry && !doc.cache.has(num))) {
+				doc.cache.set(num, parseValue({ bytes: data, pos: first + offset }));
+			}
+		}
+	}
+}
+
+/**
+ * Parse a PDF far enough to find its pages and the objects they use
+ */
+async function loadPdf(bytes: Uint8Array): Promise<PdfDocument> {
+	const doc: PdfDocument = { bytes, xref: new Map(), trailer: dict(), cache: new Map(), loading: new Set() };
+
+	let reconstructed = false;
+	try {
+		doc.trailer = await readXref(doc);
+		await loadObjectStreams(doc, false);
+		if (!resolveDict(doc, resolveDict(doc, doc.trailer.entries.get("Root") ?? null)?.entries.get("Pages") ?? null)) {
+			throw new Error("No page tree");
+		}
+	} catch (error) {
+		console.log(`Rebuilding cross-reference table: ${error instanceof Error ? error.message : String(error)}`);
+		doc.trailer = reconstructXref(doc);
+		reconstructed = true;
+	}
+
+	if (doc.trailer.entries.has("Encrypt")) {
+		throw new Error("Encrypted PDFs can't be split or merged");
+	}
+	if (reconstructed) {
+		await loadObjectStreams(doc, true);
+		if (!doc.trailer.entries.has("Root")) {
+			const root = findCatalog(doc);
+			if (!root) {
+				throw new Error("Not a readable PDF");
+			}
+			doc.trailer = dict([["Root", root]]);
+		}
+	}
+	return doc;
+}
+
+/**
+ * The pages in order, and the object numbers of every node in the page tree
+ */
+function collectPages(doc: PdfDocument): { pages: PdfPage[]; nodes: Set<number> } {
+	const pages: PdfPage[] = [];
+	const nodes = new Set<number>();
+
+	const visit = (value: PdfObject, inherited: Map<string, PdfObject>, depth: number) => {
+		if (!isKind(value, "ref") || nodes.has(value.num) || depth > MAX_PAGE_TREE_DEPTH) {
+			return;
+		}
+		const node = resolveDict(doc, value);
+		if (!node) {
+			return;
+		}
+		nodes.add(value.num);
+
+		const attributes = new Map(inherited);
+		for (const key of INHERITED_PAGE_KEYS) {
+			if (node.entries.has(key)) {
+				attributes.set(key, node.entries.get(key)!);
+			}
+		}
+
+		const kids = resolve(doc, node.entries.get("Kids") ?? null);
+		if (Array.isArray(kids)) {
+			for (const kid of kids) {
+				visit(kid, attributes, depth + 1);
+			}
+		} else {
+			pages.push({ ref: value, dict: { kind: "dict", entries: new Map([...attributes, ...node.entries]) } });
+		}
+	};
+
+	const root = resolveDict(doc, doc.trailer.entries.get("Root") ?? null);
+	visit(root?.entries.get("Pages") ?? null, new Map(), 0);
+	return { pages, nodes };
+}
+
+// Writing
+
+function formatNumber(value: number): string {
+	return Number.isInteger(value) ? String(value) : String(parseFloat(value.toFixed(6)));
+}
+
+function serialize(value: PdfObject): string {
+	if (value === null) {
+		return "null";
+	}
+	if (typeof value === "boolean") {
+		return String(value);
+	}
+	if (typeof value === "number") {
+		return formatNumber(value);
+	}
+	if (Array.isArray(value)) {
+		return `[${value.map(serialize).join(" ")}]`;
+	}
+	switch (value.kind) {
+		case "name":
+			return `/${value.name}`;
+		case "string":
+			return value.raw;
+		case "ref":
+			return `${value.num} ${value.gen} R`;
+		case "dict":
+			return `<<${[...value.entries].map(([key, entry]) => `/${key} ${serialize(entry)}`).join(" ")}>>`;
+		case "stream":
+			throw new Error("Streams must be indirect objects");
+	}
+}
+
+interface PageSelection {
+	doc: PdfDocument;
+	nodes: Set<number>;
+	page: PdfPage;
+}
+
+/**
+ * Write a new PDF with the selected pages, copying everything they refer to. References to
+ * pages that weren't selected (such as links) are dropped, so the rest of the source stays out.
+ */
+function buildPdf(selections: PageSelection[]): Uint8Array {
+	const objects = new Map<number, PdfObject>();
+	let next = 3;
+
+	// Each selection gets its own page object, even when a page is picked twice
+	const pageNums = selections.map(() => next++);
+	const copied = new Map<PdfDocument, Map<number, number>>();
+	const queue: { doc: PdfDocument; num: number; target: number }[] = [];
+
+	const numbering = (doc: PdfDocument) => {
+		let map = copied.get(doc);
+		if (!map) {
+			map = new Map();
+			copied.set(doc, map);
+			selections.forEach((selection, i) => {
+				if (selection.doc === doc && !map!.has(selection.page.ref.num)) {
+					map!.set(selection.page.ref.num, pageNums[i]);
+				}
+			});
+		}
+		return map;
+	};
+
+	const copy = (doc: PdfDocument, nodes: Set<number>, value: PdfObject): PdfObject => {
+		if (value === null || typeof value !== "object") {
+			return value;
+		}
+		if (Array.isArray(value)) {
+			return value.map((item) => copy(doc, nodes, item));
+		}
+		switch (value.kind) {
+			case "ref": {
+				const map = numbering(doc);
+				const existing = map.get(value.num);
+				if (existing !== undefined) {
+					return ref(existing);
+				}
+				if (nodes.has(value.num)) {
+					return null;
+				}
+				const target = next++;
+				map.set(value.num, target);
+				queue.push({ doc, num: value.num, target });
+				return ref(target);
+			}
+			case "dict":
+				return { kind: "dict", entries: new Map([...value.entries].map(([key, entry]) => [key, copy(doc, nodes, entry)])) };
+			case "stream":
+				return { kind: "stream", dict: copy(doc, nodes, value.dict) as PdfDict, data: value.data };
+			default:
+				return value;
+		}
+	};
+
+	selections.forEach((selection, i) => {
+		const page = copy(selection.doc, selection.nodes, selection.page.dict) as PdfDict;
+		page.entries.set("Parent", ref(2));
+		page.entries.set("Type", name("Page"));
+		objects.set(pageNums[i], page);
+	});
+	for (let i = 0; i < queue.length; i++) {
+		const { doc, num, target } = queue[i];
+		const nodes = selections.find((selection) => selection.doc === doc)!.nodes;
+		objects.set(target, copy(doc, nodes, getObject(doc, num)));
+	}
+
+	objects.set(1, dict([["Type", name("Catalog")], ["Pages", ref(2)]]));
+	objects.set(2, dict([["Type", name("Pages")], ["Kids", pageNums.map((num) => ref(num))], ["Count", pageNums.length]]));
+
+	const parts: (string | Uint8Array)[] = [];
+	const offsets: number[] = [];
+	let length = 0;
+	const write = (part: string | Uint8Array) => {
+		parts.push(part);
+		length += part.length;
+	};
+
+	write("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n");
+	for (let num = 1; num < next; num++) {
+		const value = objects.get(num) ?? null;
+		offsets[num] = length;
+		if (isKind(value, "stream")) {
+			const streamDict: PdfDict = { kind: "dict", entries: new Map(value.dict.entries) };
+			streamDict.entries.set("Length", value.data.length);
+			write(`${num} 0 obj\n${serialize(streamDict)}\nstream\n`);
+			write(value.data);
+			write("\nendstream\nendobj\n");
+		} else {
+			write(`${num} 0 obj\n${serialize(value)}\nendobj\n`);
+		}
+	}
+
+	const xrefOffset = length;
+	write(`xref\n0 ${next}\n0000000000 65535 f \n`);
+	for (let num = 1; num < next; num++) {
+		write(`${String(offsets[num]).padStart(10, "0")} 00000 n \n`);
+	}
+	write(`trailer\n<< /Size ${next} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+	const result = new Uint8Array(length);
+	let position = 0;
+	for (const part of parts) {
+		if (typeof part === "string") {
+			for (let i = 0; i < part.length; i++) {
+				result[position + i] = part.charCodeAt(i);
+			}
+		} else {
+			result.set(part, position);
+		}
+		position += part.length;
+	}
+	return result;
+}
+
+/**
+ * The indexes of the pages in some ranges, in the order given. Ranges running past the
+ * last page stop there; a range starting after it is an error.
+ */
+export function selectPages(ranges: PageRange[], pageCount: number): number[] {
+	const indexes: number[] = [];
+	for (const range of ranges) {
+		if (range.start > pageCount) {
+			throw new Error(`Page ${range.start} is past the end of the document, which has ${pageCount} pages`);
+		}
+		const end = Math.min(range.end ?? pageCount, pageCount);
+		for (let page = range.start; page <= end; page++) {
+			indexes.push(page - 1);
+		}
+	}
+	return indexes;
+}
+
+async function readPdf(file: File): Promise<{ doc: PdfDocument; pages: PdfPage[]; nodes: Set<number> }> {
+	try {
+		const doc = await loadPdf(new Uint8Array(await file.arrayBuffer()));
+		const { pages, nodes } = collectPages(doc);
+		if (pages.length === 0) {
+			throw new Error("no pages found");
+		}
+		return { doc, pages, nodes };
+	} catch (error) {
+		throw new Error(`"${file.name}" could not be read as a PDF: ${error instanceof Error ? error.message : String(error)}`);
+	}
+}
+
+/**
+ * Keep only some pages of a PDF
+ */
+export async function extractPages(file: File, ranges: PageRange[]): Promise<File> {
+	const { doc, pages, nodes } = await readPdf(file);
+	const selections = selectPages(ranges, pages.length).map((index) => ({ doc, nodes, page: pages[index] }));
+	return new File([buildPdf(selections)], file.name, { type: "application/pdf" });
+}
+
+/**
+ * Combine PDFs into one, in order, named after the first
+ */
+export async function mergePdfs(files: File[]): Promise<File> {
+	const selections: PageSelection[] = [];
+	for (const file of files) {
+		const { doc, pages, nodes } = await readPdf(file);
+		selections.push(...pages.map((page) => ({ doc, nodes, page })));
+	}
+	return new File([buildPdf(selections)], files[0].name, { type: "application/pdf" });
+}
+
+/**
+ * Merge the PDFs and images among some documents into one PDF, in their order, in place of the
+ * first of them. Other documents (EPUBs) are left as they are. Throws if any can't be read.
+ */
+export async function mergeDocuments(documents: ExpandedDocument[]): Promise<ExpandedDocument[]> {
+	const parts: ExpandedDocument[] = [];
+	const files: File[] = [];
+	for (const document of documents) {
+		const header = new Uint8Array(await document.file.slice(0, 1024).arrayBuffer());
+		if (sniffDocumentType(header) === "application/pdf") {
+			files.push(document.file);
+		} else if (sniffImageType(header)) {
+			files.push(await imagesToPdf([document.file]));
+		} else {
+			continue;
+		}
+		parts.push(document);
+	}
+	if (parts.length < 2) {
+		return documents;
+	}
+
+	const merged = await mergePdfs(files);
+	console.log(`Merged ${parts.length} documents into ${merged.name}`);
+	return documents
+		.filter((document) => !parts.includes(document) || document === parts[0])
+		.map((document) => document === parts[0] ? { file: merged, subfolder: document.subfolder } : document);
+}
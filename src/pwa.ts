@@ -0,0 +1,65 @@
+// The installable web app: its manifest, and the account it remembers for the share sheet
+
+// Set by `POST /share/account` when an account is remembered, and only sent to the share target
+export const SHARE_ACCOUNT_COOKIE = "share_account";
+export const SHARE_ACCOUNT_MAX_AGE = 400 * 24 * 60 * 60;
+
+const SHARED_FILE_TYPES = [
+	"application/pdf", ".pdf",
+	"application/epub+zip", ".epub",
+	"image/jpeg", ".jpg", ".jpeg",
+	"image/png", ".png",
+	"application/zip", ".zip",
+];
+
+/**
+ * The web app manifest. Installing the app registers it as a share target for
+ * documents, images and links, which are posted to `/share`.
+ */
+export function webManifest() {
+	return {
+		name: "Send to reMarkable",
+		short_name: "To reMarkable",
+		description: "Send documents, images and web pages to your reMarkable tablet",
+		start_url: "/",
+		scope: "/",
+		display: "standalone",
+		background_color: "#ffffff",
+		theme_color: "#007bff",
+		icons: [
+			{ src: "/icon.svg", sizes: "any", type: "image/svg+xml", purpose: "any" },
+		],
+		share_target: {
+			action: "/share",
+			method: "POST",
+			enctype: "multipart/form-data",
+			params: {
+				title: "title",
+				text: "text",
+				url: "url",
+				files: [{ name: "file", accept: SHARED_FILE_TYPES }],
+			},
+		},
+	};
+}
+
+/**
+ * Read the remembered account from the share cookie, stored as `<authId>:<token>`.
+ * Accounts from before API tokens existed are remembered without a token.
+ */
+export function parseShareAccount(value: string | undefined): { authId: string; token: string | null } | null {
+	if (!value) {
+		return null;
+	}
+	const separator = value.lastIndexOf(":");
+	const authId = (separator === -1 ? value : value.slice(0, separator)).trim();
+	const token = separator === -1 ? "" : value.slice(separator + 1).trim();
+	return authId ? { authId, token: token || null } : null;
+}
+
+/**
+ * Where the share target sends the browser afterwards: the app, which shows the outcome
+ */
+export function shareResultPath(status: "sent" | "failed" | "signin", message: string): string {
+	return `/?${new URLSearchParams({ share: status, message })}`;
+}
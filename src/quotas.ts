@@ -0,0 +1,76 @@
+// Per-account upload limits, so a leaked address or runaway script can't flood a tablet or fill R2
+
+import { QuotaLimits, QuotaUsage } from "./types";
+
+export type QuotaCheck =
+	| { allowed: true }
+	| { allowed: false; reason: string; retryAfter: number };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Read the operator's limits from the `UPLOAD_LIMIT_*` vars. Zero, empty or invalid means unlimited.
+ */
+export function quotaLimits(env: Env): QuotaLimits {
+	const parse = (value: string | undefined) => {
+		const limit = Number(value);
+		return Number.isFinite(limit) && limit > 0 ? Math.floor(limit) : 0;
+	};
+	return {
+		uploadsPerHour: parse(env.UPLOAD_LIMIT_PER_HOUR),
+		uploadsPerDay: parse(env.UPLOAD_LIMIT_PER_DAY),
+		bytesPerDay: parse(env.UPLOAD_LIMIT_BYTES_PER_DAY),
+	};
+}
+
+/**
+ * Counters for the current fixed hour and (UTC) day windows, starting afresh when a window has passed
+ */
+export function currentUsage(stored: QuotaUsage | undefined, now: number): QuotaUsage {
+	const hourStart = Math.floor(now / HOUR_MS) * HOUR_MS;
+	const dayStart = Math.floor(now / DAY_MS) * DAY_MS;
+	const sameHour = stored?.hourStart === hourStart;
+	const sameDay = stored?.dayStart === dayStart;
+	return {
+		hourStart,
+		dayStart,
+		uploadsThisHour: sameHour ? stored.uploadsThisHour : 0,
+		uploadsToday: sameDay ? stored.uploadsToday : 0,
+		bytesToday: sameDay ? stored.bytesToday : 0,
+	};
+}
+
+/**
+ * Check whether one more upload of `bytes` fits within the limits
+ */
+export function checkQuota(usage: QuotaUsage, limits: QuotaLimits, bytes: number, now: number): QuotaCheck {
+	const untilNextHour = Math.ceil((usage.hourStart + HOUR_MS - now) / 1000);
+	const untilNextDay = Math.ceil((usage.dayStart + DAY_MS - now) / 1000);
+
+	if (limits.uploadsPerHour && usage.uploadsThisHour >= limits.uploadsPerHour) {
+		return { allowed: false, reason: `Upload limit reached (${limits.uploadsPerHour} per hour)`, retryAfter: untilNextHour };
+	}
+	if (limits.uploadsPerDay && usage.uploadsToday >= limits.uploadsPerDay) {
+		return { allowed: false, reason: `Upload limit reached (${limits.uploadsPerDay} per day)`, retryAfter: untilNextDay };
+	}
+	if (limits.bytesPerDay && usage.bytesToday + bytes > limits.bytesPerDay) {
+		return { allowed: false, reason: `Daily upload size limit reached (${limits.bytesPerDay} bytes per day)`, retryAfter: untilNextDay };
+	}
+	return { allowed: true };
+}
+
+/**
+ * Take back an upload of `bytes` counted at `chargedAt`, from whichever of its windows are still current
+ */
+export function refundUsage(usage: QuotaUsage, bytes: number, chargedAt: number): QuotaUsage {
+	const charged = currentUsage(undefined, chargedAt);
+	const sameHour = usage.hourStart === charged.hourStart;
+	const sameDay = usage.dayStart === charged.dayStart;
+	return {
+		...usage,
+		uploadsThisHour: sameHour ? Math.max(0, usage.uploadsThisHour - 1) : usage.uploadsThisHour,
+		uploadsToday: sameDay ? Math.max(0, usage.uploadsToday - 1) : usage.uploadsToday,
+		bytesToday: sameDay ? Math.max(0, usage.bytesToday - bytes) : usage.bytesToday,
+	};
+}
@@ -0,0 +1,143 @@
+// Reply receipts telling the sender of an email what happened to each of its attachments
+
+import { EmailMessage } from "cloudflare:email";
+import { Receipt, ReceiptItem } from "./types";
+import type { MailHeader } from "./sender-auth";
+import type { UploadResult } from "./upload-utils";
+
+/**
+ * Delivers a receipt as a raw MIME message. Swappable so receipts can be tried out
+ * locally without a `send_email` binding.
+ */
+export interface ReceiptSender {
+	send(from: string, to: string, raw: string): Promise<void>;
+}
+
+/**
+ * Send through Cloudflare Email Routing's `send_email` binding
+ */
+export function bindingSender(binding: SendEmail): ReceiptSender {
+	return {
+		send: (from, to, raw) => binding.send(new EmailMessage(from, to, raw)),
+	};
+}
+
+/**
+ * Print receipts to the log instead of sending them
+ */
+export const logSender: ReceiptSender = {
+	async send(from, to, raw) {
+		console.log(`Receipt from ${from} to ${to}:\n${raw}`);
+	},
+};
+
+/**
+ * The binding when it is configured, otherwise the log
+ */
+export function receiptSender(env: Env): ReceiptSender {
+	return env.SEND_EMAIL ? bindingSender(env.SEND_EMAIL) : logSender;
+}
+
+/**
+ * Whether an email was sent by an autoresponder or mailing list, which shouldn't get replies (RFC 3834)
+ */
+export function isAutoSubmitted(headers: MailHeader[]): boolean {
+	return headers.some((header) => {
+		const key = header.key.toLowerCase();
+		const value = (header.value || "").trim().toLowerCase();
+		return (key === "auto-submitted" && value !== "no")
+			|| (key === "precedence" && ["bulk", "junk", "list"].includes(value))
+			|| key === "list-id";
+	});
+}
+
+/**
+ * The outcome of an upload as recorded on a receipt. Queued uploads stay pending until their workflow finishes.
+ */
+export function receiptUpdate(result: UploadResult): Partial<ReceiptItem> {
+	if (!result.success) {
+		return { status: "rejected", error: result.error };
+	}
+	return {
+		documentName: result.fileName,
+		fileId: result.fileId,
+		...(result.duplicate ? { status: "duplicate" as const } : {}),
+	};
+}
+
+/**
+ * One line per attachment, followed by what became of it
+ */
+function describeItem(item: ReceiptItem): string {
+	const name = item.documentName ? `"${item.documentName}"` : "the document";
+	switch (item.status) {
+		case "uploaded":
+			return `- ${item.attachment}\n  Sent to your reMarkable as ${name}`;
+		case "duplicate":
+			return `- ${item.attachment}\n  Already sent recently as ${name}, so it was skipped`;
+		case "failed":
+			return `- ${item.attachment}\n  Failed to upload ${name}: ${item.error || "unknown error"}`;
+		case "rejected":
+			return `- ${item.attachment}\n  Not uploaded: ${item.error || "unknown error"}`;
+		default:
+			return `- ${item.attachment}\n  Still in progress`;
+	}
+}
+
+/**
+ * The plain text of a receipt
+ */
+export function receiptText(receipt: Receipt): string {
+	const sent = receipt.items.filter((item) => item.status === "uploaded" || item.status === "duplicate").length;
+	const summary = sent === receipt.items.length
+		? `Everything in your email "${receipt.subject}" is on your reMarkable.`
+		: `${sent} of ${receipt.items.length} documents from your email "${receipt.subject}" made it to your reMarkable.`;
+	return `${summary}\n\n${receipt.items.map(describeItem).join("\n\n")}\n\n-- \nSend to reMarkable\n`;
+}
+
+/**
+ * A header value, as an RFC 2047 encoded word when it isn't plain ASCII
+ */
+function encodeHeader(value: string): string {
+	const clean = value.replace(/[\r\n]+/g, " ");
+	return /^[\x20-\x7e]*$/.test(clean) ? clean : `=?UTF-8?B?${base64(new TextEncoder().encode(clean))}?=`;
+}
+
+function base64(bytes: Uint8Array): string {
+	let binary = "";
+	for (const byte of bytes) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+/**
+ * The receipt as a MIME message replying to the original email
+ */
+export function buildReceiptMessage(receipt: Receipt, date: Date = new Date()): string {
+	const domain = receipt.from.split("@").pop() || "localhost";
+	const subject = receipt.subject ? `Re: ${receipt.subject.replace(/^re:\s*/i, "")}` : "Your documents for reMarkable";
+	const headers = [
+		`From: Send to reMarkable <${receipt.from}>`,
+		`To: <${receipt.to}>`,
+		`Subject: ${encodeHeader(subject)}`,
+		`Date: ${date.toUTCString().replace("GMT", "+0000")}`,
+		`Message-ID: <${crypto.randomUUID()}@${domain}>`,
+		...(receipt.messageId ? [`In-Reply-To: ${receipt.messageId}`, `References: ${receipt.messageId}`] : []),
+		// Keeps autoresponders from answering the receipt, and us from answering them
+		"Auto-Submitted: auto-replied",
+		"MIME-Version: 1.0",
+		"Content-Type: text/plain; charset=utf-8",
+		"Content-Transfer-Encoding: base64",
+	];
+	const body = base64(new TextEncoder().encode(receiptText(receipt))).replace(/.{76}/g, "$&\r\n");
+	return `${headers.join("\r\n")}\r\n\r\n${body}\r\n`;
+}
+
+/**
+ * Send a receipt, throwing if it couldn't be delivered
+ */
+export async function sendReceipt(env: Env, receipt: Receipt, sender: ReceiptSender = receiptSender(env)): Promise<void> {
+	await sender.send(receipt.from, receipt.to, buildReceiptMessage(receipt));
+	console.log(`Sent receipt for ${receipt.items.length} documents to ${receipt.to}`);
+}
@@ -0,0 +1,283 @@
+import { DurableObject } from "cloudflare:workers";
+import { Group, GroupDelivery, Invite, InviteRedemption } from "./types";
+
+const ALIAS_KEY_PREFIX = "alias:";
+const FEED_ACCOUNT_KEY_PREFIX = "feeds:";
+const INVITE_KEY_PREFIX = "invite:";
+const ACCOUNT_KEY_PREFIX = "account:";
+const GROUP_KEY_PREFIX = "group:";
+const GROUP_ALIAS_KEY_PREFIX = "group-alias:";
+const GROUP_DELIVERY_KEY_PREFIX = "group-delivery:";
+const SHARED_FILE_KEY_PREFIX = "shared:";
+const MAX_GROUP_DELIVERIES = 50;
+
+/**
+ * RegistryDO is a single, global Durable Object holding the directory data that
+ * doesn't belong to any one account, such as which email alias maps to which AuthDO.
+ */
+export class RegistryDO extends DurableObject<Env> {
+    /**
+     * Map an email alias to an auth ID. Returns false if the alias is already taken.
+     */
+    async registerAlias(alias: string, authId: string): Promise<boolean> {
+        const key = `${ALIAS_KEY_PREFIX}${alias}`;
+        if (await this.ctx.storage.get(key) || await this.ctx.storage.get(`${GROUP_ALIAS_KEY_PREFIX}${alias}`)) {
+            return false;
+        }
+        await this.ctx.storage.put(key, authId);
+        return true;
+    }
+
+    /**
+     * Look up the auth ID an email alias belongs to
+     */
+    async resolveAlias(alias: string): Promise<string | null> {
+        return (await this.ctx.storage.get(`${ALIAS_KEY_PREFIX}${alias}`) as string | undefined) || null;
+    }
+
+    /**
+     * Remove an email alias, as long as it belongs to the given auth ID
+     */
+    async removeAlias(alias: string, authId: string): Promise<void> {
+        const key = `${ALIAS_KEY_PREFIX}${alias}`;
+        if (await this.ctx.storage.get(key) === authId) {
+            await this.ctx.storage.delete(key);
+        }
+    }
+
+    /**
+     * Track whether an auth ID has feed subscriptions, so the cron handler knows whose digests to send
+     */
+    async setFeedAccount(authId: string, hasFeeds: boolean): Promise<void> {
+        if (hasFeeds) {
+            await this.ctx.storage.put(`${FEED_ACCOUNT_KEY_PREFIX}${authId}`, true);
+        } else {
+            await this.ctx.storage.delete(`${FEED_ACCOUNT_KEY_PREFIX}${authId}`);
+        }
+    }
+
+    /**
+     * Record a newly registered account, so the operator can find it
+     */
+    async registerAccount(authId: string): Promise<void> {
+        await this.ctx.storage.put(`${ACCOUNT_KEY_PREFIX}${authId}`, true);
+    }
+
+    /**
+     * Forget everything the registry holds for an account: the account itself, its aliases,
+     * its feeds and its membership of groups
+     */
+    async removeAccount(authId: string): Promise<void> {
+        const aliases = await this.ctx.storage.list<string>({ prefix: ALIAS_KEY_PREFIX });
+        const keys = [...aliases].filter(([, owner]) => owner === authId).map(([key]) => key);
+        await this.ctx.storage.delete([...keys, `${ACCOUNT_KEY_PREFIX}${authId}`, `${FEED_ACCOUNT_KEY_PREFIX}${authId}`]);
+
+        for (const group of await this.listGroups()) {
+            if (group.members.includes(authId)) {
+                group.members = group.members.filter((member) => member !== authId);
+                await this.ctx.storage.put(`${GROUP_KEY_PREFIX}${group.name}`, group);
+            }
+        }
+    }
+
+    /**
+     * List every known auth ID. Accounts from before the registry existed are found
+     * through their email aliases; ones that never claimed an API token can't be listed.
+     */
+    async listAccounts(): Promise<string[]> {
+        const accounts = await this.ctx.storage.list({ prefix: ACCOUNT_KEY_PREFIX });
+        const aliases = await this.ctx.storage.list<string>({ prefix: ALIAS_KEY_PREFIX });
+        return [...new Set([
+            ...[...accounts.keys()].map((key) => key.slice(ACCOUNT_KEY_PREFIX.length)),
+            ...aliases.values(),
+        ])];
+    }
+
+    /**
+     * Store a new invite
+     */
+    async createInvite(invite: Invite): Promise<void> {
+        await this.ctx.storage.put(`${INVITE_KEY_PREFIX}${invite.code}`, invite);
+    }
+
+    /**
+     * List every invite, newest first
+     */
+    async listInvites(): Promise<Invite[]> {
+        const entries = await this.ctx.storage.list<Invite>({ prefix: INVITE_KEY_PREFIX });
+        return [...entries.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    /**
+     * Revoke an invite, returning whether it existed
+     */
+    async revokeInvite(code: string): Promise<boolean> {
+        return await this.ctx.storage.delete(`${INVITE_KEY_PREFIX}${code}`);
+    }
+
+    /**
+     * Use up one of an invite's uses, if it is valid. Checking and counting happen
+     * together so an invite can't be used more often than allowed by racing it.
+     */
+    async redeemInvite(code: string): Promise<InviteRedemption> {
+        const key = `${INVITE_KEY_PREFIX}${code}`;
+        const invite = await this.ctx.storage.get<Invite>(key);
+        if (!invite) {
+            return { success: false, error: "Invalid invite code" };
+        }
+        if (invite.expiresAt && invite.expiresAt < new Date().toISOString()) {
+            return { success: false, error: "This invite code has expired" };
+        }
+        if (invite.uses >= invite.maxUses) {
+            return { success: false, error: "This invite code has already been used" };
+        }
+
+        invite.uses++;
+        await this.ctx.storage.put(key, invite);
+        return { success: true };
+    }
+
+    /**
+     * Give back a use of an invite, when registering with it failed after all
+     */
+    async releaseInvite(code: string): Promise<void> {
+        const key = `${INVITE_KEY_PREFIX}${code}`;
+        const invite = await this.ctx.storage.get<Invite>(key);
+        if (invite && invite.uses > 0) {
+            invite.uses--;
+            await this.ctx.storage.put(key, invite);
+        }
+    }
+
+    /**
+     * Store a new group and its email alias. Returns false if the name or alias is already taken.
+     */
+    async createGroup(group: Group): Promise<boolean> {
+        const key = `${GROUP_KEY_PREFIX}${group.name}`;
+        const aliasKey = `${GROUP_ALIAS_KEY_PREFIX}${group.alias}`;
+        if (await this.ctx.storage.get(key) || await this.ctx.storage.get(aliasKey) || await this.ctx.storage.get(`${ALIAS_KEY_PREFIX}${group.alias}`)) {
+            return false;
+        }
+        await this.ctx.storage.put({ [key]: group, [aliasKey]: group.name });
+        return true;
+    }
+
+    /**
+     * Get a group by name
+     */
+    async getGroup(name: string): Promise<Group | null> {
+        return (await this.ctx.storage.get<Group>(`${GROUP_KEY_PREFIX}${name}`)) || null;
+    }
+
+    /**
+     * Look up the group an email alias belongs to
+     */
+    async resolveGroupAlias(alias: string): Promise<Group | null> {
+        const name = await this.ctx.storage.get<string>(`${GROUP_ALIAS_KEY_PREFIX}${alias}`);
+        return name ? await this.getGroup(name) : null;
+    }
+
+    /**
+     * List every group by name
+     */
+    async listGroups(): Promise<Group[]> {
+        const entries = await this.ctx.storage.list<Group>({ prefix: GROUP_KEY_PREFIX });
+        return [...entries.values()];
+    }
+
+    /**
+     * Replace an existing group's members, senders or token. Its name and alias stay the same.
+     */
+    async updateGroup(group: Group): Promise<boolean> {
+        const existing = await this.getGroup(group.name);
+        if (!existing) {
+            return false;
+        }
+        await this.ctx.storage.put(`${GROUP_KEY_PREFIX}${group.name}`, { ...group, alias: existing.alias });
+        return true;
+    }
+
+    /**
+     * Delete a group with its alias and delivery log, returning whether it existed.
+     * Files already shared between its members are still released as their uploads finish.
+     */
+    async deleteGroup(name: string): Promise<boolean> {
+        const group = await this.getGroup(name);
+        if (!group) {
+            return false;
+        }
+        const deliveries = await this.ctx.storage.list({ prefix: `${GROUP_DELIVERY_KEY_PREFIX}${name}:` });
+        await this.ctx.storage.delete([
+            `${GROUP_KEY_PREFIX}${name}`,
+            `${GROUP_ALIAS_KEY_PREFIX}${group.alias}`,
+            ...deliveries.keys(),
+        ]);
+        return true;
+    }
+
+    /**
+     * Log what became of a document sent to a group, pruning the oldest entries beyond the limit
+     */
+    async recordGroupDelivery(name: string, delivery: GroupDelivery): Promise<void> {
+        const prefix = `${GROUP_DELIVERY_KEY_PREFIX}${name}:`;
+        await this.ctx.storage.put(`${prefix}${delivery.createdAt}:${delivery.fileId}`, delivery);
+
+        const keys = [...(await this.ctx.storage.list({ prefix })).keys()];
+        if (keys.length > MAX_GROUP_DELIVERIES) {
+            await this.ctx.storage.delete(keys.slice(0, keys.length - MAX_GROUP_DELIVERIES));
+        }
+    }
+
+    /**
+     * List the documents sent to a group, newest first
+     */
+    async listGroupDeliveries(name: string): Promise<GroupDelivery[]> {
+        const entries = await this.ctx.storage.list<GroupDelivery>({ prefix: `${GROUP_DELIVERY_KEY_PREFIX}${name}:`, reverse: true });
+        return [...entries.values()];
+    }
+
+    /**
+     * Record which accounts' uploads use a file in R2, before any of their workflows start
+     */
+    async shareFile(fileId: string, authIds: string[]): Promise<void> {
+        await this.ctx.storage.put(`${SHARED_FILE_KEY_PREFIX}${fileId}`, authIds);
+    }
+
+    /**
+     * Release an account's use of a shared file. Returns true once no account uses it any
+     * more, when the caller should delete it. Releasing twice is harmless.
+     */
+    async releaseFile(fileId: string, authId: string): Promise<boolean> {
+        const key = `${SHARED_FILE_KEY_PREFIX}${fileId}`;
+        const users = await this.ctx.storage.get<string[]>(key);
+        if (!users) {
+            return true;
+        }
+        if (!users.includes(authId)) {
+            return false;
+        }
+
+        const remaining = users.filter((user) => user !== authId);
+        if (remaining.length === 0) {
+            await this.ctx.storage.delete(key);
+            return true;
+        }
+        await this.ctx.storage.put(key, remaining);
+        return false;
+    }
+
+    /**
+     * List the auth IDs with feed subscriptions
+     */
+    async listFeedAccounts(): Promise<string[]> {
+        const entries = await this.ctx.storage.list({ prefix: FEED_ACCOUNT_KEY_PREFIX });
+        return [...entries.keys()].map((key) => key.slice(FEED_ACCOUNT_KEY_PREFIX.length));
+    }
+}
+
+/**
+ * Get the stub for the global registry
+ */
+export function getRegistry(env: Env): DurableObjectStub<RegistryDO> {
+    return env.REGISTRY_DO.get(env.REGISTRY_DO.idFromName("global"));
+}
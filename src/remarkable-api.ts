@@ -0,0 +1,155 @@
+// Minimal client for the reMarkable document API used by the upload workflow.
+// `host` is the account's document host, see AuthDO.getDocumentHost.
+
+export interface RemarkableEntry {
+	id: string;
+	hash: string;
+	type: "CollectionType" | "DocumentType";
+	visibleName: string;
+	lastModified: string;
+	parent?: string;
+	fileType?: string;
+	pinned?: boolean;
+}
+
+/**
+ * List every document and folder in the account
+ */
+export async function listEntries(host: string, accessToken: string): Promise<RemarkableEntry[]> {
+	const response = await fetch(`${host}/doc/v2/files`, {
+		headers: {
+			'Authorization': `Bearer ${accessToken}`,
+			'rM-Source': 'WebLibrary',
+		},
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`reMarkable API error listing files (${response.status}): ${errorText}`);
+	}
+
+	return await response.json() as RemarkableEntry[];
+}
+
+/**
+ * Create a folder, returning its ID
+ */
+export async function createFolder(host: string, accessToken: string, name: string, parent: string): Promise<string> {
+	const rmMeta = btoa(JSON.stringify({ parent, file_name: name }));
+	const response = await fetch(`${host}/doc/v2/files`, {
+		method: 'POST',
+		headers: {
+			'Authorization': `Bearer ${accessToken}`,
+			'Content-Type': 'folder',
+			'rM-Meta': rmMeta,
+			'rM-Source': 'WebLibrary',
+		},
+	});
+
+	if (!response.ok) {
+		const errorText = await response.text();
+		throw new Error(`reMarkable API error creating folder "${name}" (${response.status}): ${errorText}`);
+	}
+
+	const result = await response.json() as { docID: string };
+	return result.docID;
+}
+
+/**
+ * Split a folder path such as `Reading/Papers` into its folder names
+ */
+export function splitFolderPath(path: string): string[] {
+	return path.split('/').map((part) => part.trim()).filter((part) => part.length > 0);
+}
+
+/**
+ * Resolve a folder path to the ID of its last folder, walking down from the root.
+ * Missing folders are created when `create` is set, otherwise resolving fails.
+ * An empty path resolves to the root (`""`).
+ */
+export async function resolveFolderPath(host: string, accessToken: string, path: string, create: boolean): Promise<string> {
+	const names = splitFolderPath(path);
+	if (names.length === 0) {
+		return "";
+	}
+
+	const folders = (await listEntries(host, accessToken)).filter((entry) => entry.type === "CollectionType" && entry.parent !== "trash");
+
+	let parent = "";
+	for (const name of names) {
+		const existing = folders.find((folder) => folder.visibleName === name && (folder.parent || "") === parent);
+		if (existing) {
+			parent = existing.id;
+			continue;
+		}
+
+		if (!create) {
+			throw new Error(`Folder "${name}" not found in "${path}"`);
+		}
+
+		console.log(`Creating folder "${name}" under "${parent || 'root'}"`);
+		parent = await createFolder(host, accessToken, name, parent);
+	}
+
+	return parent;
+}
+
+export interface LibraryItem {
+	id: string;
+	name: string;
+	type: "folder" | "document";
+	// e.g. `pdf` or `epub`, for documents
+	fileType?: string;
+	// Folder path from the root, e.g. `Reading/Papers`, with `""` for the root
+	folder: string;
+	lastModified: string;
+	pinned: boolean;
+}
+
+/**
+ * Turn the flat file list into library items with their folder paths, leaving out
+ * the trash, sorted folder by folder with folders before documents
+ */
+export function buildLibrary(entries: RemarkableEntry[]): LibraryItem[] {
+	const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+	// Walk up the parents, giving up on cycles or anything in the trash
+	const folderPath = (parent: string | undefined): string | null => {
+		const names: string[] = [];
+		const seen = new Set<string>();
+		while (parent) {
+			if (parent === "trash" || seen.has(parent)) {
+				return null;
+			}
+			seen.add(parent);
+			const folder = byId.get(parent);
+			if (!folder) {
+				return null;
+			}
+			names.unshift(folder.visibleName);
+			parent = folder.parent;
+		}
+		return names.join("/");
+	};
+
+	const items: LibraryItem[] = [];
+	for (const entry of entries) {
+		const folder = folderPath(entry.parent);
+		if (folder === null) {
+			continue;
+		}
+		items.push({
+			id: entry.id,
+			name: entry.visibleName,
+			type: entry.type === "CollectionType" ? "folder" : "document",
+			fileType: entry.type === "DocumentType" ? entry.fileType : undefined,
+			folder,
+			lastModified: entry.lastModified,
+			pinned: !!entry.pinned,
+		});
+	}
+
+	return items.sort((a, b) => a.folder.localeCompare(b.folder)
+		|| (a.type === b.type ? 0 : a.type === "folder" ? -1 : 1)
+		|| a.name.localeCompare(b.name));
+}
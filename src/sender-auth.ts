@@ -0,0 +1,156 @@
+// Helpers for deciding whether an incoming email may upload to an account
+
+// Headers as parsed by postal-mime, with a lowercase `key` and raw `value`
+export type MailHeader = Record<string, string>;
+
+// The authserv-id Cloudflare Email Routing stamps on the results it adds
+export const RECEIVING_AUTHSERV_ID = "mx.cloudflare.net";
+
+export interface AuthenticationResults {
+	authservId?: string;
+	spf?: string;
+	spfDomain?: string;
+	dkim: { result: string; domain?: string }[];
+	dmarc?: string;
+	dmarcDomain?: string;
+}
+
+export interface SenderCheckResult {
+	allowed: boolean;
+	reason?: string;
+}
+
+/**
+ * Normalise an allowlist entry. Entries containing an `@` are full addresses,
+ * anything else (including `@example.com`) is treated as a domain.
+ * Returns null if the entry doesn't look like either.
+ */
+export function normalizeSenderEntry(entry: string): string | null {
+	let value = entry.trim().toLowerCase();
+	if (value.startsWith("@")) {
+		value = value.slice(1);
+	}
+
+	const domainPattern = /^(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+[a-z]{2,}$/;
+	if (value.includes("@")) {
+		const [local, domain, ...rest] = value.split("@");
+		if (!local || rest.length > 0 || !domainPattern.test(domain)) {
+			return null;
+		}
+		return value;
+	}
+
+	return domainPattern.test(value) ? value : null;
+}
+
+/**
+ * Check whether an address matches an allowlist of addresses and domains
+ */
+export function matchesAllowlist(address: string, allowlist: string[]): boolean {
+	const normalized = address.trim().toLowerCase();
+	const domain = normalized.split("@")[1];
+	return allowlist.some((entry) => entry.includes("@") ? entry === normalized : entry === domain);
+}
+
+/**
+ * Parse an Authentication-Results (or ARC-Authentication-Results) header value into the server
+ * that added it and the SPF, DKIM and DMARC results it reports
+ */
+export function parseAuthenticationResults(value: string): AuthenticationResults {
+	const parts = value.split(";");
+	// ARC results start with the instance, before the authserv-id
+	if (/^\s*i\s*=\s*\d+\s*$/i.test(parts[0])) {
+		parts.shift();
+	}
+	// The authserv-id may be followed by a version number
+	const results: AuthenticationResults = { authservId: parts[0]?.trim().split(/\s+/)[0]?.toLowerCase() || undefined, dkim: [] };
+
+	// Results follow the authserv-id, separated by semicolons
+	for (const part of parts.slice(1)) {
+		const match = part.trim().match(/^(spf|dkim|dmarc)\s*=\s*([a-z]+)(.*)$/is);
+		if (!match) {
+			continue;
+		}
+		const method = match[1].toLowerCase();
+		const result = match[2].toLowerCase();
+		const properties = match[3];
+
+		if (method === "spf") {
+			results.spf = result;
+			results.spfDomain = properties.match(/smtp\.mailfrom=(?:[^@\s;]*@)?([^\s;]+)/i)?.[1]?.toLowerCase();
+		} else if (method === "dkim") {
+			results.dkim.push({
+				result,
+				domain: properties.match(/header\.d=([^\s;]+)/i)?.[1]?.toLowerCase(),
+			});
+		} else {
+			results.dmarc = result;
+			results.dmarcDomain = properties.match(/header\.from=(?:[^@\s;]*@)?([^\s;]+)/i)?.[1]?.toLowerCase();
+		}
+	}
+
+	return results;
+}
+
+/**
+ * Relaxed alignment: the authenticated domain must be the From domain, a parent of it or a subdomain of it
+ */
+function isAligned(authenticatedDomain: string | undefined, fromDomain: string): boolean {
+	if (!authenticatedDomain) {
+		return false;
+	}
+	return authenticatedDomain === fromDomain
+		|| fromDomain.endsWith(`.${authenticatedDomain}`)
+		|| authenticatedDomain.endsWith(`.${fromDomain}`);
+}
+
+/**
+ * Verify the From address was authenticated by the receiving mail server.
+ * Only the topmost Authentication-Results header is trusted, since it is the one
+ * added by Cloudflare; anything below it could have been written by the sender.
+ * Without one, the topmost ARC-Authentication-Results header is used instead.
+ * Either way it must carry Cloudflare's authserv-id.
+ */
+export function verifySenderAuthentication(headers: MailHeader[], fromAddress: string): SenderCheckResult {
+	const header = headers.find((h) => h.key.toLowerCase() === "authentication-results")
+		|| headers.find((h) => h.key.toLowerCase() === "arc-authentication-results");
+	if (!header) {
+		return { allowed: false, reason: "No authentication results found" };
+	}
+
+	const results = parseAuthenticationResults(header.value);
+	if (results.authservId !== RECEIVING_AUTHSERV_ID) {
+		return { allowed: false, reason: `Authentication results were not added by ${RECEIVING_AUTHSERV_ID}` };
+	}
+	const fromDomain = fromAddress.trim().toLowerCase().split("@")[1] || "";
+
+	if (results.dmarc === "fail") {
+		return { allowed: false, reason: "DMARC check failed" };
+	}
+	// DMARC is evaluated against the From header, which must be the address we were given
+	if (results.dmarc === "pass" && results.dmarcDomain === fromDomain) {
+		return { allowed: true };
+	}
+	if (results.dkim.some((dkim) => dkim.result === "pass" && isAligned(dkim.domain, fromDomain))) {
+		return { allowed: true };
+	}
+	if (results.spf === "pass" && isAligned(results.spfDomain, fromDomain)) {
+		return { allowed: true };
+	}
+
+	return { allowed: false, reason: "Sender could not be authenticated with SPF, DKIM or DMARC" };
+}
+
+/**
+ * Decide whether an email may upload to an account with the given allowlist.
+ * An empty allowlist accepts mail from anyone.
+ */
+export function checkSender(headers: MailHeader[], fromAddress: string, allowlist: string[]): SenderCheckResult {
+	if (allowlist.length === 0) {
+		return { allowed: true };
+	}
+	if (!matchesAllowlist(fromAddress, allowlist)) {
+		return { allowed: false, reason: "Sender is not on the allowlist" };
+	}
+	return verifySenderAuthentication(headers, fromAddress);
+}
@@ -0,0 +1,134 @@
+import { AccountSettings } from "./types";
+import { splitFolderPath } from "./remarkable-api";
+import { DEFAULT_MAX_FILE_SIZE } from "./validation";
+import { NAMING_PLACEHOLDERS, unknownPlaceholders } from "./naming";
+
+const MAX_NAMING_TEMPLATE_LENGTH = 200;
+const MAX_DUPLICATE_WINDOW_MINUTES = 7 * 24 * 60;
+
+// How long after sending a document the same content is treated as a duplicate
+export const DEFAULT_DUPLICATE_WINDOW_MINUTES = 24 * 60;
+
+// How long uploaded documents are kept in R2 so they can be re-sent
+export const DEFAULT_RETENTION_HOURS = 24;
+const MAX_RETENTION_HOURS = 30 * 24;
+
+export type SettingsValidation =
+	| { success: true; changes: Partial<AccountSettings> }
+	| { success: false; error: string };
+
+/**
+ * Validate a settings update from the API. A `null` value clears the setting.
+ */
+export function validateSettingsChanges(body: unknown): SettingsValidation {
+	if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+		return { success: false, error: "Settings must be a JSON object" };
+	}
+	const changes: Partial<AccountSettings> = {};
+
+	if ('defaultFolder' in body) {
+		const value = body.defaultFolder;
+		if (value === null || value === '') {
+			changes.defaultFolder = undefined;
+		} else if (typeof value === 'string' && splitFolderPath(value).length > 0) {
+			changes.defaultFolder = splitFolderPath(value).join('/');
+		} else {
+			return { success: false, error: "defaultFolder must be a folder path such as \"Reading/Papers\"" };
+		}
+	}
+
+	if ('createFolders' in body) {
+		const value = body.createFolders;
+		if (value === null) {
+			changes.createFolders = undefined;
+		} else if (typeof value === 'boolean') {
+			changes.createFolders = value;
+		} else {
+			return { success: false, error: "createFolders must be a boolean" };
+		}
+	}
+
+	if ('archiveFolders' in body) {
+		const value = body.archiveFolders;
+		if (value === null) {
+			changes.archiveFolders = undefined;
+		} else if (typeof value === 'boolean') {
+			changes.archiveFolders = value;
+		} else {
+			return { success: false, error: "archiveFolders must be a boolean" };
+		}
+	}
+
+	if ('combineImages' in body) {
+		const value = body.combineImages;
+		if (value === null) {
+			changes.combineImages = undefined;
+		} else if (typeof value === 'boolean') {
+			changes.combineImages = value;
+		} else {
+			return { success: false, error: "combineImages must be a boolean" };
+		}
+	}
+
+	if ('emailReceipts' in body) {
+		const value = body.emailReceipts;
+		if (value === null) {
+			changes.emailReceipts = undefined;
+		} else if (typeof value === 'boolean') {
+			changes.emailReceipts = value;
+		} else {
+			return { success: false, error: "emailReceipts must be a boolean" };
+		}
+	}
+
+	if ('maxFileSize' in body) {
+		const value = body.maxFileSize;
+		if (value === null) {
+			changes.maxFileSize = undefined;
+		} else if (typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= DEFAULT_MAX_FILE_SIZE) {
+			changes.maxFileSize = value;
+		} else {
+			return { success: false, error: `maxFileSize must be a whole number of bytes up to ${DEFAULT_MAX_FILE_SIZE}` };
+		}
+	}
+
+	if ('namingTemplate' in body) {
+		const value = body.namingTemplate;
+		if (value === null || value === '') {
+			changes.namingTemplate = undefined;
+		} else if (typeof value !== 'string' || value.length > MAX_NAMING_TEMPLATE_LENGTH) {
+			return { success: false, error: `namingTemplate must be a string of at most ${MAX_NAMING_TEMPLATE_LENGTH} characters` };
+		} else if (unknownPlaceholders(value).length > 0) {
+			return {
+				success: false,
+				error: `Unknown placeholders in namingTemplate: ${unknownPlaceholders(value).join(', ')}. Supported: ${NAMING_PLACEHOLDERS.map((name) => `{${name}}`).join(', ')}`
+			};
+		} else {
+			changes.namingTemplate = value;
+		}
+	}
+
+	if ('duplicateWindowMinutes' in body) {
+		const value = body.duplicateWindowMinutes;
+		if (value === null) {
+			changes.duplicateWindowMinutes = undefined;
+		} else if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_DUPLICATE_WINDOW_MINUTES) {
+			changes.duplicateWindowMinutes = value;
+		} else {
+			return { success: false, error: `duplicateWindowMinutes must be a whole number of minutes up to ${MAX_DUPLICATE_WINDOW_MINUTES} (0 turns duplicate detection off)` };
+		}
+	}
+
+	if ('retentionHours' in body) {
+		const value = body.retentionHours;
+		if (value === null) {
+			changes.retentionHours = undefined;
+		} else if (typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_RETENTION_HOURS) {
+			changes.retentionHours = value;
+		} else {
+			return { success: false, error: `retentionHours must be a whole number of hours up to ${MAX_RETENTION_HOURS} (0 deletes documents as soon as they are uploaded)` };
+		}
+	}
+
+	return { success: true, changes };
+}
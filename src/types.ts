@@ -10,8 +10,201 @@ export interface AuthError {
     error: string;
 }
 
+export type TokenState = "active" | "refresh_failing" | "revoked";
+
 export interface AuthStatus {
     registered: boolean;
     device_id?: string;
     access_token_valid?: boolean;
+    // Registered before API tokens existed; claim one with POST /auth/:authId/token
+    legacy?: boolean;
+    auth_host?: string;
+    document_host?: string;
+    token_state?: TokenState;
+    last_refresh_at?: string;
+    last_refresh_error?: string;
+    usage?: QuotaUsage & { limits: QuotaLimits };
+}
+
+// Upload limits, zero meaning unlimited
+export interface QuotaLimits {
+    uploadsPerHour: number;
+    uploadsPerDay: number;
+    bytesPerDay: number;
+}
+
+// Upload counters for the current hour and UTC day, identified by their start (ms since epoch)
+export interface QuotaUsage {
+    hourStart: number;
+    dayStart: number;
+    uploadsThisHour: number;
+    uploadsToday: number;
+    bytesToday: number;
+}
+
+// Types for upload tracking
+
+export type UploadState = "queued" | "retrieved" | "authenticated" | "uploaded" | "failed" | "cleaned_up";
+
+export interface UploadRecord {
+    fileId: string;
+    fileName: string;
+    workflowId?: string;
+    source: string;
+    state: UploadState;
+    error?: string;
+    sha256?: string;
+    resends?: number;
+    // The distribution group this was sent to, whose members share the file in R2
+    group?: string;
+    createdAt: string;
+    updatedAt: string;
+    steps: Partial<Record<UploadState, string>>;
+}
+
+// Per-account settings
+
+export interface AccountSettings {
+    defaultFolder?: string;
+    createFolders?: boolean;
+    maxFileSize?: number;
+    namingTemplate?: string;
+    duplicateWindowMinutes?: number;
+    retentionHours?: number;
+    archiveFolders?: boolean;
+    combineImages?: boolean;
+    emailReceipts?: boolean;
+}
+
+// Types for webhook notifications
+
+export interface Webhook {
+    id: string;
+    url: string;
+    secret: string;
+    createdAt: string;
+}
+
+// Types for email aliases
+
+export interface EmailAlias {
+    alias: string;
+    createdAt: string;
+}
+
+// Overrides for the reMarkable cloud hosts, e.g. for rmfakecloud
+
+export interface RemarkableEndpoints {
+    discoveryUrl?: string;
+    authHost?: string;
+    syncHost?: string;
+    documentHost?: string;
+}
+
+// Types for feed subscriptions
+
+export interface Feed {
+    id: string;
+    url: string;
+    title: string;
+    createdAt: string;
+    lastFetchedAt?: string;
+    lastError?: string;
+}
+
+// When the daily digest is sent: an hour in UTC, on some weekdays (0 is Sunday) or every day
+export interface FeedSchedule {
+    hour: number;
+    days?: number[];
+    folder?: string;
+}
+
+// Types for reply receipts to emailed uploads
+
+export type ReceiptItemStatus = "pending" | "uploaded" | "duplicate" | "rejected" | "failed";
+
+export interface ReceiptItem {
+    // The attachment (or linked document) as it arrived
+    attachment: string;
+    documentName?: string;
+    fileId?: string;
+    status: ReceiptItemStatus;
+    error?: string;
+}
+
+export interface Receipt {
+    id: string;
+    // The address the email was sent to, which the reply comes from
+    from: string;
+    // The sender of the email
+    to: string;
+    subject: string;
+    messageId?: string;
+    createdAt: string;
+    items: ReceiptItem[];
+}
+
+// Types for operator-issued invite codes
+
+export interface Invite {
+    code: string;
+    maxUses: number;
+    uses: number;
+    createdAt: string;
+    expiresAt?: string;
+    note?: string;
+}
+
+export type InviteRedemption =
+    | { success: true }
+    | { success: false; error: string };
+
+// Types for distribution groups, which deliver one address or upload to several accounts
+
+export interface Group {
+    name: string;
+    // Auth IDs of the member accounts
+    members: string[];
+    alias: string;
+    tokenHash: string;
+    allowedSenders: string[];
+    createdAt: string;
+}
+
+// A group without its credential, as shown to the operator
+export type GroupSummary = Omit<Group, "tokenHash">;
+
+export type GroupMemberStatus = "queued" | "duplicate" | "rejected" | "failed";
+
+export interface GroupMemberDelivery {
+    authId: string;
+    status: GroupMemberStatus;
+    // The upload in the member's history: the shared file, or for a duplicate the earlier upload
+    fileId?: string;
+    error?: string;
+}
+
+export interface GroupDelivery {
+    fileId: string;
+    fileName: string;
+    source: string;
+    createdAt: string;
+    members: GroupMemberDelivery[];
+}
+
+// Types for the operator's view of accounts
+
+export interface AccountSummary {
+    authId: string;
+    registered: boolean;
+    registeredAt?: string;
+    suspended: boolean;
+    tokenState?: TokenState;
+    lastRefreshError?: string;
+    lastUploadAt?: string;
+    uploads: number;
+    failedUploads: number;
+    usage: QuotaUsage;
+    feeds: number;
+    aliases: string[];
 }
@@ -0,0 +1,21 @@
+// Which upload records an account keeps, so the history stays small without losing uploads still in progress
+
+import { UploadRecord, UploadState } from "./types";
+
+export const MAX_UPLOAD_HISTORY = 100;
+
+const HOUR_MS = 60 * 60 * 1000;
+// An upload still in progress this long after it was queued, or after the retention if longer, is stuck
+const MIN_STUCK_AGE_MS = 24 * HOUR_MS;
+const FINAL_STATES: UploadState[] = ["failed", "cleaned_up"];
+
+/**
+ * The records beyond the newest MAX_UPLOAD_HISTORY that can be dropped: ones that have finished,
+ * or that were queued longer ago than the account keeps files. `uploads` is newest first.
+ */
+export function staleUploads(uploads: UploadRecord[], retentionHours: number, now: number): UploadRecord[] {
+	const stuckBefore = now - Math.max(retentionHours * HOUR_MS, MIN_STUCK_AGE_MS);
+	return uploads.slice(MAX_UPLOAD_HISTORY).filter((upload) =>
+		FINAL_STATES.includes(upload.state) || Date.parse(upload.createdAt) < stuckBefore
+	);
+}
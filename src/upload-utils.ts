@@ -1,25 +1,145 @@
 import { WorkflowParams } from "./workflow";
+import { DEFAULT_MAX_FILE_SIZE, validateFile, ValidationErrorCode } from "./validation";
+import { DEFAULT_DUPLICATE_WINDOW_MINUTES, DEFAULT_RETENTION_HOURS } from "./settings";
+import { sha256Hex } from "./crypto-utils";
+import { imagesToPdf, isImage } from "./image-pdf";
+import { extractPages } from "./pdf";
+import type { PageRange } from "./directives";
+import type { AuthDO } from "./auth-do";
+import type { AccountSettings } from "./types";
 
-export interface UploadResult {
-	success: boolean;
+// Why an upload was refused: the file itself, or the state of the account
+export type UploadErrorCode = ValidationErrorCode | "invalid_archive" | "invalid_pdf" | "revoked" | "suspended" | "rate_limited";
+
+export interface UploadSuccess {
+	success: true;
 	fileId: string;
 	fileName: string;
 	workflowId: string;
 	workflowStatus: any;
 	email?: string;
-	error?: string;
+	// Set when the same content was already sent recently; the IDs are the original upload's
+	duplicate?: boolean;
 }
 
-export async function uploadFile(
-	env: Env,
-	file: File,
-	authDoId: string,
-	email?: string
-): Promise<UploadResult> {
-	console.log(`Starting file upload: ${file.name}, size: ${file.size} bytes, authDoId: ${authDoId}${email ? `, email: ${email}` : ''}`);
-	
-	// Verify the auth DO has a valid token
-	const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authDoId));
+export interface UploadFailure {
+	success: false;
+	code: UploadErrorCode;
+	fileName: string;
+	error: string;
+	// Seconds until a rate limited upload may be retried
+	retryAfter?: number;
+}
+
+export type UploadResult = UploadSuccess | UploadFailure;
+
+export interface UploadOptions {
+	// Folder path on the tablet, e.g. `Reading/Papers`. Falls back to the account's default folder.
+	folder?: string;
+	// Name of the document on the tablet. Defaults to the file's name.
+	name?: string;
+	// Folder inside the target folder, e.g. from the directories of an unpacked archive
+	subfolder?: string;
+	// Where a non-email upload came from, shown in the upload history. Defaults to `web-upload`.
+	source?: string;
+	// Pages of a PDF to keep, e.g. from an email's `[pages:1-10]` directive. Ignored for other documents.
+	pages?: PageRange[];
+	// The email receipt this upload reports to once its workflow finishes
+	receipt?: WorkflowParams["receipt"];
+}
+
+type AuthDOStub = DurableObjectStub<AuthDO>;
+
+export type PreparedDocument =
+	| { success: true; file: File; documentName: string }
+	| UploadFailure;
+
+/**
+ * Turn an incoming file into the document that goes to the tablet: images become PDFs,
+ * PDFs are cut down to the requested pages, and anything unsupported is rejected
+ */
+export async function prepareDocument(file: File, maxFileSize: number, options: UploadOptions = {}): Promise<PreparedDocument> {
+	let documentName = options.name?.trim() || file.name;
+
+	// Photos and scans go to the tablet as a PDF page (oversized images are left for validation to reject)
+	if (file.size <= maxFileSize && await isImage(file)) {
+		try {
+			file = await imagesToPdf([file]);
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			console.error(`Rejected ${file.name}: ${reason}`);
+			return {
+				success: false,
+				code: "unsupported_type",
+				fileName: documentName,
+				error: reason,
+			};
+		}
+		documentName = options.name?.trim() || file.name;
+		console.log(`Converted image to ${file.name}, size: ${file.size} bytes`);
+	}
+
+	// Reject anything that isn't a supported document before it reaches R2
+	const validation = await validateFile(file, maxFileSize);
+	if (!validation.valid) {
+		console.error(`Rejected ${file.name}: ${validation.reason}`);
+		return {
+			success: false,
+			code: validation.code,
+			fileName: documentName,
+			error: validation.reason,
+		};
+	}
+	file = validation.file;
+
+	// Keep only the requested pages; the document stored in R2 is what goes to the tablet
+	if (options.pages && validation.type === "application/pdf") {
+		try {
+			file = await extractPages(file, options.pages);
+		} catch (error) {
+			const reason = error instanceof Error ? error.message : String(error);
+			console.error(`Rejected ${file.name}: ${reason}`);
+			return {
+				success: false,
+				code: "invalid_pdf",
+				fileName: documentName,
+				error: reason,
+			};
+		}
+		console.log(`Kept ${JSON.stringify(options.pages)} of ${file.name}, size: ${file.size} bytes`);
+	} else if (options.pages) {
+		console.log(`Ignoring page ranges for ${file.name}, which isn't a PDF`);
+	}
+
+	return { success: true, file, documentName };
+}
+
+/**
+ * Refuse uploads to accounts that are suspended or whose device was revoked.
+ * Throws if the account isn't registered at all.
+ */
+export async function checkAccount(authDoStub: AuthDOStub, authDoId: string, documentName: string): Promise<UploadFailure | null> {
+	if (await authDoStub.isSuspended()) {
+		console.error(`Account suspended for authDoId: ${authDoId}`);
+		return {
+			success: false,
+			code: "suspended",
+			fileName: documentName,
+			error: "This account has been suspended by the operator",
+		};
+	}
+
+	// Fail fast rather than queueing a workflow that can never authenticate
+	if (await authDoStub.getTokenState() === "revoked") {
+		console.error(`Device revoked for authDoId: ${authDoId}`);
+		return {
+			success: false,
+			code: "revoked",
+			fileName: documentName,
+			error: "The reMarkable device for this account has been revoked. Register it again with a new one-time code.",
+		};
+	}
+
 	const isRegistered = await authDoStub.isRegistered();
 	
 	if (!isRegistered) {
@@ -28,13 +148,66 @@ export async function uploadFile(
 	}
 
 	console.log(`Authentication verified for authDoId: ${authDoId}`);
+	return null;
+}
 
+/**
+ * Skip content the account was already sent recently, then count the upload against its limits.
+ * Returns the result to report instead of uploading, or null to go ahead. An admitted upload that
+ * then fails to be stored or queued should be given back with the AuthDO's `refundQuota`.
+ */
+export async function admitUpload(
+	authDoStub: AuthDOStub,
+	authDoId: string,
+	settings: AccountSettings,
+	file: File,
+	documentName: string,
+	sha256: string,
+	email?: string
+): Promise<UploadResult | null> {
+	// Mail clients re-sending, forwards and double clicks shouldn't put the same document on the tablet twice
+	const duplicateWindowMinutes = settings.duplicateWindowMinutes ?? DEFAULT_DUPLICATE_WINDOW_MINUTES;
+	if (duplicateWindowMinutes > 0) {
+		const original = await authDoStub.findDuplicate(sha256, duplicateWindowMinutes * 60 * 1000);
+		if (original) {
+			console.log(`Skipping ${file.name}: already sent as ${original.fileId} at ${original.createdAt}`);
+			return {
+				success: true,
+				fileId: original.fileId,
+				fileName: original.fileName,
+				workflowId: original.workflowId || '',
+				workflowStatus: null,
+				email: email,
+				duplicate: true,
+			};
+		}
+	}
+
+	// Count the upload against the account's limits before it takes up space in R2
+	const quota = await authDoStub.consumeQuota(file.size);
+	if (!quota.allowed) {
+		console.error(`Rate limited ${file.name} for authDoId ${authDoId}: ${quota.reason}`);
+		return {
+			success: false,
+			code: "rate_limited",
+			fileName: documentName,
+			error: quota.reason,
+			retryAfter: quota.retryAfter,
+		};
+	}
+
+	return null;
+}
+
+/**
+ * Store a document in R2 under a new file ID
+ */
+export async function storeDocument(env: Env, file: File, source: string, sha256: string, owner: Record<string, string>): Promise<string> {
 	// Generate a unique ID for the file
 	const fileId = crypto.randomUUID();
 	
 	console.log(`Generated file ID: ${fileId} for file: ${file.name}`);
 	
-	// Store the file in R2
 	await env.DOCUMENT_STORAGE.put(fileId, file.stream(), {
 		httpMetadata: {
 			contentType: file.type,
@@ -42,38 +215,109 @@ export async function uploadFile(
 		},
 		customMetadata: {
 			originalFileName: file.name,
-			uploadedBy: email || 'web-upload',
+			uploadedBy: source,
 			uploadedAt: new Date().toISOString(),
-			authDoId: authDoId,
+			...owner,
+			sha256: sha256,
 		},
 	});
 
 	console.log(`File stored in R2 with ID: ${fileId}`);
+	return fileId;
+}
+
+/**
+ * Record an upload of a file already in R2 in the account's history and start its workflow
+ */
+export async function queueUpload(
+	env: Env,
+	authDoStub: AuthDOStub,
+	settings: AccountSettings,
+	params: Pick<WorkflowParams, "fileId" | "fileName" | "authDoId" | "email" | "group">,
+	source: string,
+	sha256: string,
+	options: UploadOptions = {}
+): Promise<UploadSuccess> {
+	// Track the upload in the account's history so its progress can be queried
+	await authDoStub.recordUpload(params.fileId, params.fileName, source, sha256, params.group);
 
 	// Trigger the workflow
 	const workflowParams: WorkflowParams = {
-		fileId: fileId,
-		fileName: file.name,
-		authDoId: authDoId,
+		...params,
+		folder: [options.folder || settings.defaultFolder, options.subfolder].filter(Boolean).join('/') || undefined,
+		createFolders: settings.createFolders,
+		retentionHours: settings.retentionHours ?? DEFAULT_RETENTION_HOURS,
+		receipt: options.receipt,
+		pages: options.pages,
 	};
-	
-	if (email) {
-		workflowParams.email = email;
+
+	let instance: WorkflowInstance;
+	try {
+		instance = await env.MY_WORKFLOW.create({
+			params: workflowParams,
+		});
+	} catch (error) {
+		await authDoStub.updateUploadState(params.fileId, "failed", error instanceof Error ? error.message : String(error));
+		throw error;
 	}
 
-	let instance = await env.MY_WORKFLOW.create({
-		params: workflowParams,
-	});
+	await authDoStub.setUploadWorkflow(params.fileId, instance.id);
 
 	const workflowStatus = await instance.status();
 	console.log(`Workflow created with ID: ${instance.id}, status: ${workflowStatus.status}`);
 
 	return {
 		success: true,
-		fileId: fileId,
-		fileName: file.name,
+		fileId: params.fileId,
+		fileName: params.fileName,
 		workflowId: instance.id,
 		workflowStatus: workflowStatus,
-		email: email,
+		email: params.email,
 	};
 }
+
+export async function uploadFile(
+	env: Env,
+	file: File,
+	authDoId: string,
+	email?: string,
+	options: UploadOptions = {}
+): Promise<UploadResult> {
+	console.log(`Starting file upload: ${file.name}, size: ${file.size} bytes, authDoId: ${authDoId}${email ? `, email: ${email}` : ''}`);
+	
+	const source = email || options.source || 'web-upload';
+
+	// Verify the auth DO has a valid token
+	const authDoStub = env.AUTH_DO.get(env.AUTH_DO.idFromName(authDoId));
+
+	const refusal = await checkAccount(authDoStub, authDoId, options.name?.trim() || file.name);
+	if (refusal) {
+		return refusal;
+	}
+
+	const settings = await authDoStub.getSettings();
+	const prepared = await prepareDocument(file, settings.maxFileSize ?? DEFAULT_MAX_FILE_SIZE, options);
+	if (!prepared.success) {
+		return prepared;
+	}
+	file = prepared.file;
+	const documentName = prepared.documentName;
+
+	const sha256 = await sha256Hex(await file.arrayBuffer());
+	const chargedAt = Date.now();
+	const admission = await admitUpload(authDoStub, authDoId, settings, file, documentName, sha256, email);
+	if (admission) {
+		return admission;
+	}
+
+	// The upload was counted against the quota when admitted, so that is undone if it never gets queued
+	try {
+		// Store the file in R2
+		const fileId = await storeDocument(env, file, source, sha256, { authDoId });
+
+		return await queueUpload(env, authDoStub, settings, { fileId, fileName: documentName, authDoId, email }, source, sha256, options);
+	} catch (error) {
+		await authDoStub.refundQuota(file.size, chargedAt);
+		throw error;
+	}
+}
@@ -0,0 +1,68 @@
+// Validation of incoming files before they are stored and sent to the tablet
+
+export const DEFAULT_MAX_FILE_SIZE = 100 * 1024 * 1024; // 100 MB
+
+export type DocumentType = "application/pdf" | "application/epub+zip";
+
+export type ValidationErrorCode = "empty" | "too_large" | "unsupported_type";
+
+export type ValidationResult =
+	| { valid: true; file: File; type: DocumentType }
+	| { valid: false; code: ValidationErrorCode; reason: string };
+
+const EPUB_MIMETYPE = "application/epub+zip";
+
+/**
+ * Detect a PDF or EPUB from the first bytes of a file
+ */
+export function sniffDocumentType(bytes: Uint8Array): DocumentType | null {
+	const header = new TextDecoder("latin1").decode(bytes.subarray(0, 1024));
+
+	// PDF readers accept the header anywhere in the first kilobyte
+	if (header.includes("%PDF-")) {
+		return "application/pdf";
+	}
+
+	// An EPUB is a ZIP whose first entry is an uncompressed `mimetype` file
+	if (header.startsWith("PK\u0003\u0004") && header.slice(30, 38) === "mimetype") {
+		if (header.slice(38, 38 + EPUB_MIMETYPE.length) === EPUB_MIMETYPE || header.slice(0, 200).includes(EPUB_MIMETYPE)) {
+			return "application/epub+zip";
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Check a file is a supported document within the size limit, returning it with
+ * its content type corrected to what the bytes say it is
+ */
+export async function validateFile(file: File, maxFileSize: number = DEFAULT_MAX_FILE_SIZE): Promise<ValidationResult> {
+	if (file.size === 0) {
+		return { valid: false, code: "empty", reason: `"${file.name}" is empty` };
+	}
+
+	if (file.size > maxFileSize) {
+		return {
+			valid: false,
+			code: "too_large",
+			reason: `"${file.name}" is ${file.size} bytes, over the limit of ${maxFileSize} bytes`,
+		};
+	}
+
+	const type = sniffDocumentType(new Uint8Array(await file.slice(0, 1024).arrayBuffer()));
+	if (!type) {
+		return {
+			valid: false,
+			code: "unsupported_type",
+			reason: `"${file.name}" is not a PDF, EPUB, JPEG or PNG (${file.type || "unknown type"})`,
+		};
+	}
+
+	if (type !== file.type) {
+		console.log(`Correcting content type of ${file.name} from ${file.type || "unknown"} to ${type}`);
+		file = new File([file], file.name, { type });
+	}
+
+	return { valid: true, file, type };
+}
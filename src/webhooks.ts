@@ -0,0 +1,89 @@
+// Signed webhook notifications for upload events
+
+import { Webhook } from "./types";
+import { checkUrl } from "./fetch-url";
+import { randomHex, toHex } from "./crypto-utils";
+
+export const MAX_WEBHOOKS = 5;
+export const SIGNATURE_HEADER = "X-Send-To-Remarkable-Signature";
+export const EVENT_HEADER = "X-Send-To-Remarkable-Event";
+
+export type WebhookEventType = "upload.succeeded" | "upload.failed" | "upload.cleaned_up";
+
+export interface WebhookEvent {
+	id: string;
+	type: WebhookEventType;
+	createdAt: string;
+	data: {
+		fileId: string;
+		fileName: string;
+		email?: string;
+		error?: string;
+	};
+}
+
+/**
+ * Check a webhook URL can be registered: HTTPS and publicly reachable
+ */
+export async function validateWebhookUrl(rawUrl: unknown): Promise<string | null> {
+	if (typeof rawUrl !== "string") {
+		return "url is required";
+	}
+
+	let url: URL;
+	try {
+		url = new URL(rawUrl);
+	} catch {
+		return `Invalid URL: ${rawUrl}`;
+	}
+
+	if (url.protocol !== "https:") {
+		return "Webhook URLs must use https";
+	}
+
+	return await checkUrl(url);
+}
+
+/**
+ * Generate a random secret for signing webhook payloads
+ */
+export function generateWebhookSecret(): string {
+	return randomHex(32);
+}
+
+/**
+ * HMAC-SHA256 signature of a payload, hex encoded and prefixed with `sha256=`
+ */
+export async function signPayload(secret: string, body: string): Promise<string> {
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+	const signature = new Uint8Array(await crypto.subtle.sign("HMAC", key, encoder.encode(body)));
+	return `sha256=${toHex(signature)}`;
+}
+
+/**
+ * POST a signed event to a webhook. Throws on failure so the calling workflow step retries.
+ */
+export async function deliverWebhook(webhook: Webhook, event: WebhookEvent): Promise<void> {
+	// Re-check the address on every delivery, DNS may have changed since registration
+	const urlError = await checkUrl(new URL(webhook.url));
+	if (urlError) {
+		throw new Error(`Refusing to deliver webhook: ${urlError}`);
+	}
+
+	const body = JSON.stringify(event);
+	const response = await fetch(webhook.url, {
+		method: "POST",
+		redirect: "manual",
+		headers: {
+			"content-type": "application/json",
+			[EVENT_HEADER]: event.type,
+			[SIGNATURE_HEADER]: await signPayload(webhook.secret, body),
+		},
+		body,
+	});
+
+	if (!response.ok) {
+		throw new Error(`Webhook ${webhook.id} responded with ${response.status}`);
+	}
+}
@@ -2,7 +2,39 @@ import {
 	WorkflowEntrypoint,
 	WorkflowEvent,
 	WorkflowStep,
+	WorkflowStepConfig,
 } from "cloudflare:workers";
+import { UploadState } from "./types";
+import { resolveFolderPath } from "./remarkable-api";
+import { deliverWebhook, WebhookEvent, WebhookEventType } from "./webhooks";
+import { DEFAULT_RETENTION_HOURS } from "./settings";
+import { sendReceipt } from "./receipts";
+import type { PageRange } from "./directives";
+import { getRegistry } from "./registry-do";
+
+// Webhook deliveries back off from 10 seconds to roughly 40 minutes over 8 attempts
+const WEBHOOK_DELIVERY_CONFIG: WorkflowStepConfig = {
+	retries: {
+		limit: 8,
+		delay: "10 seconds",
+		backoff: "exponential",
+	},
+	timeout: "30 seconds",
+};
+
+const RECEIPT_DELIVERY_CONFIG: WorkflowStepConfig = {
+	retries: {
+		limit: 3,
+		delay: "30 seconds",
+		backoff: "exponential",
+	},
+	timeout: "30 seconds",
+};
+
+// Events sent to a workflow waiting out its retention period, see the uploads routes
+export const UPLOAD_CONTROL_EVENT = "upload-control";
+export type UploadControlAction = "resend" | "purge";
+export const MAX_RESENDS = 5;
 
 // User-defined params passed to your Workflow
 export type WorkflowParams = {
@@ -10,69 +42,174 @@ export type WorkflowParams = {
 	fileId: string;
 	fileName: string;
 	authDoId: string;
+	folder?: string;
+	createFolders?: boolean;
+	// How long to keep the file in R2 after uploading, so it can be re-sent. 0 deletes it straight away.
+	retentionHours?: number;
+	// The reply receipt for the email this came from, and this upload's place in it
+	receipt?: { id: string; index: number };
+	// Pages kept from the original document (the file in R2 already only has these)
+	pages?: PageRange[];
+	// The distribution group this was sent to. Its members' workflows share one file in R2.
+	group?: string;
 };
 
 export class RemarkableUploadWorkflow extends WorkflowEntrypoint<Env, WorkflowParams> {
 	async run(event: WorkflowEvent<WorkflowParams>, step: WorkflowStep) {
-		console.log(`Starting workflow for file ${event.payload.fileName} with authDoId ${event.payload.authDoId}`);
+		console.log(`Starting workflow for file ${event.payload.fileName} with authDoId ${event.payload.authDoId}${event.payload.pages ? `, pages ${JSON.stringify(event.payload.pages)}` : ''}`);
 		
-		const fileInfo = await step.do("retrieve file info", async () => {
-			// Access the file from R2 storage
-			const file = await this.env.DOCUMENT_STORAGE.get(event.payload.fileId);
-			if (!file) {
-				throw new Error(`File with ID ${event.payload.fileId} not found`);
-			}
+		try {
+			const fileInfo = await step.do("retrieve file info", async () => {
+				// Access the file from R2 storage
+				const file = await this.env.DOCUMENT_STORAGE.get(event.payload.fileId);
+				if (!file) {
+					throw new Error(`File with ID ${event.payload.fileId} not found`);
+				}
 			
-			console.log(`Retrieved file info: ${event.payload.fileName}, size: ${file.size} bytes`);
+				console.log(`Retrieved file info: ${event.payload.fileName}, size: ${file.size} bytes`);
 			
-			return {
-				email: event.payload.email,
-				fileId: event.payload.fileId,
-				fileName: event.payload.fileName,
-				fileSize: file.size,
-				lastModified: file.uploaded,
-				authDoId: event.payload.authDoId
-			};
-		});
+				return {
+					email: event.payload.email,
+					fileId: event.payload.fileId,
+					fileName: event.payload.fileName,
+					fileSize: file.size,
+					lastModified: file.uploaded,
+					authDoId: event.payload.authDoId
+				};
+			});
+			await this.recordState(step, event.payload, "retrieved");
+
+			await this.sendToRemarkable(step, event.payload, fileInfo.email);
+			await this.notifyWebhooks(step, event.payload, "upload.succeeded");
+			await this.settleReceipt(step, event.payload, "uploaded");
+
+			// Keep the file for the account's retention period so it can be re-sent,
+			// until it runs out or the file is purged early
+			const retentionHours = event.payload.retentionHours ?? DEFAULT_RETENTION_HOURS;
+			if (retentionHours > 0) {
+				console.log(`Upload successful, keeping file for ${retentionHours} hours before cleanup: ${fileInfo.fileName}`);
+				const deadline = await step.do("calculate retention deadline", async () => Date.now() + retentionHours * 60 * 60 * 1000);
+
+				let resends = 0;
+				for (let wait = 1; ; wait++) {
+					const action = await this.waitForControl(step, `wait for resend or purge ${wait}`, deadline);
+					if (action !== "resend") {
+						break;
+					}
+					if (resends >= MAX_RESENDS) {
+						console.log(`Ignoring resend of ${fileInfo.fileName}, already re-sent ${resends} times`);
+						continue;
+					}
+
+					resends++;
+					const suffix = ` (resend ${resends})`;
+					try {
+						await this.sendToRemarkable(step, event.payload, fileInfo.email, suffix);
+						await this.notifyWebhooks(step, event.payload, "upload.succeeded", undefined, suffix);
+					} catch (error) {
+						// The original upload went through, so a failed resend just ends the retention early
+						const message = error instanceof Error ? error.message : String(error);
+						await this.recordState(step, event.payload, "failed", message, suffix);
+						await this.notifyWebhooks(step, event.payload, "upload.failed", message, suffix);
+						break;
+					}
+				}
+			}
+
+			await step.do(
+				"cleanup and delete file",
+				async () => {
+					console.log(`Starting cleanup for file ${fileInfo.fileName} (ID: ${fileInfo.fileId})`);
+
+					// A group's file stays until the last member's upload is done with it
+					if (event.payload.group && !await getRegistry(this.env).releaseFile(fileInfo.fileId, event.payload.authDoId)) {
+						console.log(`Keeping shared file ${fileInfo.fileId} for the other members of group ${event.payload.group}`);
+						return;
+					}
+				
+					try {
+						// Delete the file from R2 storage
+						await this.env.DOCUMENT_STORAGE.delete(fileInfo.fileId);
+						console.log(`Successfully deleted file ${fileInfo.fileName} from R2 storage`);
+					} catch (error) {
+						console.error(`Failed to delete file ${fileInfo.fileName} from R2:`, error);
+						throw error;
+					}
+				},
+			);
+			await this.recordState(step, event.payload, "cleaned_up");
+			await this.notifyWebhooks(step, event.payload, "upload.cleaned_up");
+
+			console.log(`Workflow completed successfully for file: ${fileInfo.fileName}`);
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			await this.recordState(step, event.payload, "failed", message);
+			await this.notifyWebhooks(step, event.payload, "upload.failed", message);
+			// Receipts only report the first upload, a later failure (such as cleanup) doesn't change it
+			await this.settleReceipt(step, event.payload, "failed", message);
+			await this.releaseSharedFile(step, event.payload);
+			throw error;
+		}
+	}
 
+	/**
+	 * Authenticate, resolve the target folder and upload the file from R2. Re-sends run this
+	 * again with a `suffix` so their steps don't reuse the results of the first upload.
+	 */
+	private async sendToRemarkable(step: WorkflowStep, payload: WorkflowParams, email?: string, suffix = "") {
 		// Get access token from the AuthDO
-		const authInfo = await step.do("get authentication", async () => {
-			console.log(`Getting access token from AuthDO: ${event.payload.authDoId}`);
-			const authDoStub = this.env.AUTH_DO.get(this.env.AUTH_DO.idFromName(event.payload.authDoId));
+		const authInfo = await step.do(`get authentication${suffix}`, async () => {
+			console.log(`Getting access token from AuthDO: ${payload.authDoId}`);
+			const authDoStub = this.env.AUTH_DO.get(this.env.AUTH_DO.idFromName(payload.authDoId));
 			const accessToken = await authDoStub.getAccessToken();
-			
+		
 			if (!accessToken) {
 				throw new Error("No valid access token available. Device may not be registered.");
 			}
-			
-			console.log(`Successfully retrieved access token (length: ${accessToken.length})`);
-			return { accessToken };
+		
+			// The document host depends on the account's region or self-hosted cloud
+			const documentHost = await authDoStub.getDocumentHost();
+
+			console.log(`Successfully retrieved access token (length: ${accessToken.length}), document host: ${documentHost}`);
+			return { accessToken, documentHost };
+		});
+		await this.recordState(step, payload, "authenticated", undefined, suffix);
+
+		// Resolve the target folder name to its ID, creating it if allowed
+		const target = await step.do(`resolve target folder${suffix}`, async () => {
+			if (!payload.folder) {
+				return { parent: "" };
+			}
+
+			console.log(`Resolving folder "${payload.folder}" for file: ${payload.fileName}`);
+			const parent = await resolveFolderPath(authInfo.documentHost, authInfo.accessToken, payload.folder, payload.createFolders ?? true);
+			return { parent };
 		});
 
 		// Upload to reMarkable API
-		const apiResponse = await step.do("upload to reMarkable API", async () => {
-			console.log(`Starting upload to reMarkable API for file: ${fileInfo.fileName}`);
-			
+		await step.do(`upload to reMarkable API${suffix}`, async () => {
+			console.log(`Starting upload to reMarkable API for file: ${payload.fileName}`);
+		
 			// Get the file from R2 storage
-			const file = await this.env.DOCUMENT_STORAGE.get(event.payload.fileId);
+			const file = await this.env.DOCUMENT_STORAGE.get(payload.fileId);
 			if (!file) {
-				throw new Error(`File with ID ${event.payload.fileId} not found in R2`);
+				throw new Error(`File with ID ${payload.fileId} not found in R2`);
 			}
 
 			// Get the content type from R2 metadata
 			const contentType = file.httpMetadata?.contentType || 'application/octet-stream';
-			
+		
 			// Prepare the rM-Meta header - base64 encoded JSON
 			const rmMeta = {
-				parent: "",
-				file_name: fileInfo.fileName
+				parent: target.parent,
+				file_name: payload.fileName
 			};
 			const rmMetaBase64 = btoa(JSON.stringify(rmMeta));
 
 			console.log(`Making request to reMarkable API with Content-Type: ${contentType}`);
 
 			// Make the request to reMarkable API
-			const response = await fetch('https://eu.tectonic.remarkable.com/doc/v2/files', {
+			const response = await fetch(`${authInfo.documentHost}/doc/v2/files`, {
 				method: 'POST',
 				headers: {
 					'Authorization': `Bearer ${authInfo.accessToken}`,
@@ -89,34 +226,130 @@ export class RemarkableUploadWorkflow extends WorkflowEntrypoint<Env, WorkflowPa
 			}
 
 			const result = await response.json() as any;
-			console.log(`Successfully uploaded file ${fileInfo.fileName} to reMarkable${fileInfo.email ? ` for ${fileInfo.email}` : ''}`);
-			
+			console.log(`Successfully uploaded file ${payload.fileName} to reMarkable${email ? ` for ${email}` : ''}`);
+		
 			return { 
 				success: true as const, 
 				uploaded: new Date().toISOString(),
 				remarkableResponse: result as Record<string, any>
 			};
 		});
+		await this.recordState(step, payload, "uploaded", undefined, suffix);
+	}
 
-		console.log(`Upload successful, waiting 24 hours before cleanup for file: ${fileInfo.fileName}`);
-		await step.sleep("wait before cleanup", "24 hours");
+	/**
+	 * Wait for a resend or purge request until the retention deadline. Running out of time counts as a purge.
+	 */
+	private async waitForControl(step: WorkflowStep, name: string, deadline: number): Promise<UploadControlAction> {
+		try {
+			const controlEvent = await step.waitForEvent<{ action: UploadControlAction }>(name, {
+				type: UPLOAD_CONTROL_EVENT,
+				timeout: Math.max(deadline - Date.now(), 1000),
+			});
+			return controlEvent.payload.action;
+		} catch {
+			console.log("Retention period is over");
+			return "purge";
+		}
+	}
 
-		await step.do(
-			"cleanup and delete file",
-			async () => {
-				console.log(`Starting cleanup for file ${fileInfo.fileName} (ID: ${fileInfo.fileId})`);
-				
-				try {
-					// Delete the file from R2 storage
-					await this.env.DOCUMENT_STORAGE.delete(fileInfo.fileId);
-					console.log(`Successfully deleted file ${fileInfo.fileName} from R2 storage`);
-				} catch (error) {
-					console.error(`Failed to delete file ${fileInfo.fileName} from R2:`, error);
-					throw error;
+	/**
+	 * Record the upload's progress in the AuthDO history as its own step, so it is only written once
+	 */
+	private async recordState(step: WorkflowStep, payload: WorkflowParams, state: UploadState, error?: string, suffix = "") {
+		await step.do(`record state ${state}${suffix}`, async () => {
+			const authDoStub = this.env.AUTH_DO.get(this.env.AUTH_DO.idFromName(payload.authDoId));
+			await authDoStub.updateUploadState(payload.fileId, state, error);
+		});
+	}
+
+	/**
+	 * Give up a failed upload's share of a group's file, deleting it if no other member needs it.
+	 * Files that aren't shared are kept after a failure, until purged.
+	 */
+	private async releaseSharedFile(step: WorkflowStep, payload: WorkflowParams) {
+		if (!payload.group) {
+			return;
+		}
+		try {
+			await step.do("release shared file", async () => {
+				if (await getRegistry(this.env).releaseFile(payload.fileId, payload.authDoId)) {
+					await this.env.DOCUMENT_STORAGE.delete(payload.fileId);
+					console.log(`Deleted shared file ${payload.fileId}, the last member of group ${payload.group} is done with it`);
 				}
-			},
-		);
+			});
+		} catch (releaseError) {
+			console.error(`Failed to release shared file ${payload.fileId}:`, releaseError);
+		}
+	}
+
+	/**
+	 * Record the upload's outcome on the receipt for the email it came from, sending the
+	 * receipt if this was the last upload it was waiting for. Never fails the upload.
+	 */
+	private async settleReceipt(step: WorkflowStep, payload: WorkflowParams, status: "uploaded" | "failed", error?: string) {
+		const { receipt } = payload;
+		if (!receipt) {
+			return;
+		}
+
+		try {
+			const completed = await step.do(`settle receipt ${status}`, async () => {
+				const authDoStub = this.env.AUTH_DO.get(this.env.AUTH_DO.idFromName(payload.authDoId));
+				return await authDoStub.settleReceiptItem(receipt.id, receipt.index, { status, documentName: payload.fileName, fileId: payload.fileId, error });
+			});
+			if (completed) {
+				await step.do("send receipt", RECEIPT_DELIVERY_CONFIG, async () => {
+					await sendReceipt(this.env, completed);
+				});
+			}
+		} catch (receiptError) {
+			console.error(`Failed to send receipt ${receipt.id}:`, receiptError);
+		}
+	}
+
+	/**
+	 * Send an event to each of the account's webhooks. Every delivery is its own step with
+	 * backoff, and a webhook that keeps failing is skipped rather than failing the upload.
+	 */
+	private async notifyWebhooks(step: WorkflowStep, payload: WorkflowParams, type: WebhookEventType, error?: string, suffix = "") {
+		const authDoStub = this.env.AUTH_DO.get(this.env.AUTH_DO.idFromName(payload.authDoId));
+
+		try {
+			// The event is built in a step so its ID and timestamp stay the same across retries
+			const prepared = await step.do(`prepare ${type} event${suffix}`, async () => {
+				const webhooks = await authDoStub.getWebhooks();
+				const webhookEvent: WebhookEvent = {
+					id: crypto.randomUUID(),
+					type,
+					createdAt: new Date().toISOString(),
+					data: {
+						fileId: payload.fileId,
+						fileName: payload.fileName,
+						...(payload.email ? { email: payload.email } : {}),
+						...(error ? { error } : {}),
+					},
+				};
+				return { webhookEvent, webhookIds: webhooks.map((webhook) => webhook.id) };
+			});
 
-		console.log(`Workflow completed successfully for file: ${fileInfo.fileName}`);
+			for (const webhookId of prepared.webhookIds) {
+				try {
+					await step.do(`deliver ${type} event to webhook ${webhookId}${suffix}`, WEBHOOK_DELIVERY_CONFIG, async () => {
+						// Look the webhook up again so removed webhooks stop receiving retries
+						const webhook = (await authDoStub.getWebhooks()).find((candidate) => candidate.id === webhookId);
+						if (!webhook) {
+							console.log(`Webhook ${webhookId} was removed, skipping delivery`);
+							return;
+						}
+						await deliverWebhook(webhook, prepared.webhookEvent);
+					});
+				} catch (deliveryError) {
+					console.error(`Giving up on ${type} webhook ${webhookId}:`, deliveryError);
+				}
+			}
+		} catch (notifyError) {
+			console.error(`Failed to send ${type} webhooks:`, notifyError);
+		}
 	}
 }
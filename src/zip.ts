@@ -0,0 +1,250 @@
+// Minimal ZIP archive support, enough to build EPUBs and unpack uploaded archives inside the Worker
+
+export interface ZipEntry {
+	name: string;
+	data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+/**
+ * CRC-32 as used by ZIP
+ */
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a date to the MS-DOS time and date fields used in ZIP headers
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+		date: ((Math.max(date.getUTCFullYear(), 1980) - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+	};
+}
+
+/**
+ * Build a ZIP archive with every entry stored uncompressed, in the given order.
+ * Storing keeps this small and satisfies EPUB's requirement that `mimetype` is not compressed.
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+	const encoder = new TextEncoder();
+	const { time, date } = dosDateTime(modified);
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.name);
+		const crc = crc32(entry.data);
+
+		const local = new Uint8Array(30 + name.length);
+		const localView = new DataView(local.buffer);
+		localView.setUint32(0, 0x04034b50, true); // Local file header signature
+		localView.setUint16(4, 20, true); // Version needed to extract
+		localView.setUint16(6, 0x0800, true); // UTF-8 file names
+		localView.setUint16(8, 0, true); // Stored
+		localView.setUint16(10, time, true);
+		localView.setUint16(12, date, true);
+		localView.setUint32(14, crc, true);
+		localView.setUint32(18, entry.data.length, true);
+		localView.setUint32(22, entry.data.length, true);
+		localView.setUint16(26, name.length, true);
+		localView.setUint16(28, 0, true);
+		local.set(name, 30);
+
+		const central = new Uint8Array(46 + name.length);
+		const centralView = new DataView(central.buffer);
+		centralView.setUint32(0, 0x02014b50, true); // Central directory header signature
+		centralView.setUint16(4, 20, true); // Version made by
+		centralView.setUint16(6, 20, true);
+		centralView.setUint16(8, 0x0800, true);
+		centralView.setUint16(10, 0, true);
+		centralView.setUint16(12, time, true);
+		centralView.setUint16(14, date, true);
+		centralView.setUint32(16, crc, true);
+		centralView.setUint32(20, entry.data.length, true);
+		centralView.setUint32(24, entry.data.length, true);
+		centralView.setUint16(28, name.length, true);
+		centralView.setUint32(42, offset, true);
+		central.set(name, 46);
+
+		localParts.push(local, entry.data);
+		centralParts.push(central);
+		offset += local.length + entry.data.length;
+	}
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true); // End of central directory signature
+	endView.setUint16(8, entries.length, true);
+	endView.setUint16(10, entries.length, true);
+	endView.setUint32(12, centralSize, true);
+	endView.setUint32(16, offset, true);
+
+	const parts = [...localParts, ...centralParts, end];
+	const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+	let position = 0;
+	for (const part of parts) {
+		result.set(part, position);
+		position += part.length;
+	}
+	return result;
+}
+
+// An entry from an archive's central directory, not yet extracted
+export interface ZipDirectoryEntry {
+	name: string;
+	method: number;
+	encrypted: boolean;
+	crc: number;
+	compressedSize: number;
+	size: number;
+	localHeaderOffset: number;
+}
+
+/**
+ * Check whether bytes start like a ZIP archive (which includes EPUBs)
+ */
+export function isZip(bytes: Uint8Array): boolean {
+	return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+/**
+ * Read the central directory of a ZIP archive, without extracting anything.
+ * Directories are left out. Throws if the archive is malformed or uses ZIP64.
+ */
+export function readZipDirectory(bytes: Uint8Array, maxEntries: number): ZipDirectoryEntry[] {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+	// The end of central directory record is at the end, before a comment of up to 64 KB
+	let end = -1;
+	for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+		if (view.getUint32(i, true) === 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end === -1) {
+		throw new Error("Not a ZIP archive (no central directory)");
+	}
+
+	const count = view.getUint16(end + 10, true);
+	const directoryOffset = view.getUint32(end + 16, true);
+	if (count === 0xffff || directoryOffset === 0xffffffff) {
+		throw new Error("ZIP64 archives are not supported");
+	}
+	if (count > maxEntries) {
+		throw new Error(`Archive has ${count} entries, over the limit of ${maxEntries}`);
+	}
+
+	const decoder = new TextDecoder();
+	const entries: ZipDirectoryEntry[] = [];
+	let offset = directoryOffset;
+	for (let i = 0; i < count; i++) {
+		if (offset + 46 > bytes.length || view.getUint32(offset, true) !== 0x02014b50) {
+			throw new Error("Corrupt ZIP central directory");
+		}
+		const flags = view.getUint16(offset + 8, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+		if (!name.endsWith("/")) {
+			entries.push({
+				name,
+				method: view.getUint16(offset + 10, true),
+				encrypted: (flags & 0x1) !== 0,
+				crc: view.getUint32(offset + 16, true),
+				compressedSize: view.getUint32(offset + 20, true),
+				size: view.getUint32(offset + 24, true),
+				localHeaderOffset: view.getUint32(offset + 42, true),
+			});
+		}
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+	return entries;
+}
+
+/**
+ * Extract one entry, refusing to produce more than `maxSize` bytes whatever its header claims
+ */
+export async function extractZipEntry(bytes: Uint8Array, entry: ZipDirectoryEntry, maxSize: number): Promise<Uint8Array> {
+	if (entry.encrypted) {
+		throw new Error(`"${entry.name}" is encrypted`);
+	}
+	if (entry.size > maxSize) {
+		throw new Error(`"${entry.name}" expands to ${entry.size} bytes, over the limit of ${maxSize} bytes`);
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const header = entry.localHeaderOffset;
+	if (header + 30 > bytes.length || view.getUint32(header, true) !== 0x04034b50) {
+		throw new Error(`Corrupt ZIP entry "${entry.name}"`);
+	}
+	const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+	const compressed = bytes.subarray(start, start + entry.compressedSize);
+	if (compressed.length !== entry.compressedSize) {
+		throw new Error(`Truncated ZIP entry "${entry.name}"`);
+	}
+
+	let data: Uint8Array;
+	if (entry.method === 0) {
+		data = compressed;
+	} else if (entry.method === 8) {
+		data = await inflateLimited(compressed, maxSize, entry.name);
+	} else {
+		throw new Error(`"${entry.name}" uses an unsupported compression method (${entry.method})`);
+	}
+
+	if (data.length !== entry.size || crc32(data) !== entry.crc) {
+		throw new Error(`"${entry.name}" is corrupt (size or checksum mismatch)`);
+	}
+	return data;
+}
+
+/**
+ * Inflate raw DEFLATE data, stopping as soon as the output passes `maxSize`
+ */
+async function inflateLimited(compressed: Uint8Array, maxSize: number, name: string): Promise<Uint8Array> {
+	const reader = new Blob([compressed]).stream().pipeThrough(new DecompressionStream("deflate-raw")).getReader();
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		total += value.byteLength;
+		if (total > maxSize) {
+			await reader.cancel();
+			throw new Error(`"${name}" expands to over ${maxSize} bytes`);
+		}
+		chunks.push(value);
+	}
+
+	const result = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.byteLength;
+	}
+	return result;
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { expandArchives, expansionName, MAX_ARCHIVE_EXPANDED_SIZE } from "../src/archive";
+import { createZip } from "../src/zip";
+
+function zipFile(name: string, entries: { name: string; data: Uint8Array }[]): File {
+	return new File([createZip(entries)], name, { type: "application/zip" });
+}
+
+// Entries are recognised by their extension, and a stored PDF header would make the archive look like a PDF
+function entryBytes(size: number): Uint8Array {
+	return new Uint8Array(size).fill(0x20);
+}
+
+describe("expandArchives", () => {
+	it("replaces archives with the documents inside them", async () => {
+		const archive = zipFile("pack.zip", [
+			{ name: "week 1/notes.pdf", data: entryBytes(100) },
+			{ name: "readme.txt", data: new TextEncoder().encode("hello") },
+			{ name: "__MACOSX/._notes.pdf", data: new Uint8Array(4) },
+		]);
+		const document = new File([entryBytes(50)], "other.pdf", { type: "application/pdf" });
+
+		const expansion = await expandArchives([archive, document], true, 1000);
+
+		expect(expansion.documents.map(({ file, subfolder }) => [file.name, subfolder])).toEqual([
+			["notes.pdf", "week 1"],
+			["other.pdf", undefined],
+		]);
+		expect(expansion.failures.map((failure) => failure.code)).toEqual(["unsupported_type"]);
+	});
+
+	it("limits the bytes extracted across every archive in a request", async () => {
+		const size = Math.ceil(MAX_ARCHIVE_EXPANDED_SIZE * 0.6);
+		const first = zipFile("first.zip", [{ name: "first.pdf", data: entryBytes(size) }]);
+		const second = zipFile("second.zip", [{ name: "second.pdf", data: entryBytes(size) }]);
+
+		const expansion = await expandArchives([first, second], false, MAX_ARCHIVE_EXPANDED_SIZE);
+
+		expect(expansion.documents.map(({ file }) => file.name)).toEqual(["first.pdf"]);
+		expect(expansion.failures).toHaveLength(1);
+		expect(expansion.failures[0].fileName).toBe("second.zip");
+		expect(expansion.failures[0].error).toContain("in total");
+	});
+});
+
+describe("expansionName", () => {
+	it("names an upload that comes down to a single document", async () => {
+		const archive = zipFile("pack.zip", [{ name: "only.pdf", data: entryBytes(10) }]);
+		expect(expansionName(await expandArchives([archive], false, 1000), "Reading")).toBe("Reading");
+	});
+
+	it("leaves several documents with their own names", async () => {
+		const archive = zipFile("pack.zip", [
+			{ name: "first.pdf", data: entryBytes(10) },
+			{ name: "second.pdf", data: entryBytes(10) },
+		]);
+		const expansion = await expandArchives([archive], false, 1000);
+
+		expect(expansionName(expansion, "Reading")).toBeUndefined();
+		expect(expansionName({ ...expansion, documents: expansion.documents.slice(1) }, "")).toBeUndefined();
+	});
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { parsePageRanges, parseSubjectDirectives } from "../src/directives";
+
+describe("parsePageRanges", () => {
+	it("reads single pages, ranges and open ranges", () => {
+		expect(parsePageRanges("3")).toEqual([{ start: 3, end: 3 }]);
+		expect(parsePageRanges("1-10")).toEqual([{ start: 1, end: 10 }]);
+		expect(parsePageRanges(" 1, 4 , 7 - ")).toEqual([{ start: 1, end: 1 }, { start: 4, end: 4 }, { start: 7 }]);
+	});
+
+	it("rejects invalid parts", () => {
+		expect(parsePageRanges("0")).toBeNull();
+		expect(parsePageRanges("5-2")).toBeNull();
+		expect(parsePageRanges("1,,2")).toBeNull();
+		expect(parsePageRanges("-3")).toBeNull();
+		expect(parsePageRanges("one")).toBeNull();
+	});
+
+	it("rejects more than 50 ranges", () => {
+		expect(parsePageRanges(Array.from({ length: 50 }, (_, i) => i + 1).join(","))).toHaveLength(50);
+		expect(parsePageRanges(Array.from({ length: 51 }, (_, i) => i + 1).join(","))).toBeNull();
+	});
+});
+
+describe("parseSubjectDirectives", () => {
+	it("takes the directives out of the subject", () => {
+		expect(parseSubjectDirectives("Q3 results [folder: Work / Reports ] [pages:1-10] [MERGE] [name:Quarterly]")).toEqual({
+			subject: "Q3 results",
+			directives: {
+				folder: "Work/Reports",
+				pages: [{ start: 1, end: 10 }],
+				merge: true,
+				name: "Quarterly",
+			},
+			problems: [],
+		});
+	});
+
+	it("leaves other bracketed words in the subject", () => {
+		expect(parseSubjectDirectives("[EXT] Re: the [draft] report")).toEqual({
+			subject: "[EXT] Re: the [draft] report",
+			directives: {},
+			problems: [],
+		});
+	});
+
+	it("reports unknown directives and invalid values", () => {
+		const parsed = parseSubjectDirectives("Paper [color:red] [folder: / ] [pages:9-1] [merge:yes] [name]");
+
+		expect(parsed.subject).toBe("Paper");
+		expect(parsed.directives).toEqual({});
+		expect(parsed.problems).toEqual([
+			"Unknown directive [color:red] (supported: folder, name, merge, pages)",
+			"[folder: / ]: folder needs a value, e.g. [folder:Reading/Papers]",
+			"[pages:9-1]: pages must be page numbers and ranges such as 1-10,12,15-",
+			"[merge:yes]: merge doesn't take a value",
+			"[name]: name needs a value, e.g. [name:Q3 report]",
+		]);
+	});
+});
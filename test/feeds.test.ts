@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { parseFeed } from "../src/feeds";
+
+describe("parseFeed", () => {
+	it("reads an RSS feed", () => {
+		const feed = parseFeed(`<?xml version="1.0"?>
+			<rss version="2.0"><channel>
+				<title>Example &amp; Co</title>
+				<item>
+					<title><![CDATA[First <post>]]></title>
+					<link>https://example.com/1</link>
+					<guid isPermaLink="false">post-1</guid>
+					<pubDate>Mon, 05 Oct 2026 08:00:00 GMT</pubDate>
+					<description>&lt;p&gt;Hello&lt;/p&gt;</description>
+				</item>
+				<item><link>https://example.com/2</link></item>
+				<item><title>No link or guid</title></item>
+			</channel></rss>`);
+
+		expect(feed).toEqual({
+			title: "Example & Co",
+			items: [
+				{ id: "post-1", title: "First <post>", link: "https://example.com/1", published: new Date("2026-10-05T08:00:00Z"), html: "<p>Hello</p>" },
+				{ id: "https://example.com/2", title: "Untitled", link: "https://example.com/2", published: undefined, html: "" },
+			],
+		});
+	});
+
+	it("reads an Atom feed", () => {
+		const feed = parseFeed(`<feed xmlns="http://www.w3.org/2005/Atom">
+			<title>Atom example</title>
+			<entry>
+				<title>Entry</title>
+				<link rel="edit" href="https://example.com/edit/1"/>
+				<link rel="alternate" href="https://example.com/1"/>
+				<id>urn:entry:1</id>
+				<updated>2026-10-05T08:00:00Z</updated>
+				<content type="xhtml"><div>Inline</div></content>
+			</entry>
+		</feed>`);
+
+		expect(feed?.title).toBe("Atom example");
+		expect(feed?.items).toEqual([
+			{ id: "urn:entry:1", title: "Entry", link: "https://example.com/1", published: new Date("2026-10-05T08:00:00Z"), html: "<div>Inline</div>" },
+		]);
+	});
+
+	it("rejects documents that aren't feeds", () => {
+		expect(parseFeed("<html><body>Not a feed</body></html>")).toBeNull();
+	});
+
+	it("reads unclosed items and tags in linear time", () => {
+		const started = Date.now();
+		const items = parseFeed(`<rss><channel><title>Slow</title>${"<item><title>".repeat(100_000)}`);
+		const tags = parseFeed(`<rss><channel>${"<title <link <![CDATA[".repeat(100_000)}`);
+
+		expect(items).toEqual({ title: "Slow", items: [] });
+		expect(tags).toEqual({ title: "Untitled feed", items: [] });
+		expect(Date.now() - started).toBeLessThan(2000);
+	});
+
+	it("keeps at most 500 items", () => {
+		const feed = parseFeed(`<rss><channel>${Array.from({ length: 600 }, (_, i) => `<item><guid>${i}</guid></item>`).join("")}</channel></rss>`);
+		expect(feed?.items).toHaveLength(500);
+	});
+});
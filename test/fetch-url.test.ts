@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { isPrivateAddress } from "../src/fetch-url";
+
+/**
+ * The host of a URL as the URL parser normalises it, which is what checkUrl sees
+ */
+function urlHost(url: string): string {
+	return new URL(url).hostname;
+}
+
+describe("isPrivateAddress", () => {
+	it.each([
+		"0.0.0.0",
+		"10.1.2.3",
+		"100.64.0.1",
+		"127.0.0.1",
+		"169.254.169.254",
+		"172.16.0.1",
+		"172.31.255.255",
+		"192.0.0.170",
+		"192.0.2.1",
+		"192.168.1.1",
+		"198.18.0.1",
+		"198.51.100.7",
+		"203.0.113.9",
+		"224.0.0.1",
+		"255.255.255.255",
+	])("treats IPv4 %s as private", (address) => {
+		expect(isPrivateAddress(address)).toBe(true);
+	});
+
+	it.each([
+		"1.1.1.1",
+		"8.8.8.8",
+		"100.128.0.1",
+		"172.32.0.1",
+		"192.0.3.1",
+		"192.169.0.1",
+		"203.0.114.1",
+	])("treats IPv4 %s as public", (address) => {
+		expect(isPrivateAddress(address)).toBe(false);
+	});
+
+	it.each([
+		"::",
+		"::1",
+		"[::1]",
+		"fc00::1",
+		"fd12:3456:789a::1",
+		"fe80::1",
+		"febf::1",
+		"ff02::1",
+		"64:ff9b:1::1",
+		"2001::1",
+		"2001:0:4136:e378:8000:63bf:3fff:fdd2",
+	])("treats IPv6 %s as private", (address) => {
+		expect(isPrivateAddress(address)).toBe(true);
+	});
+
+	it.each([
+		"2606:4700:4700::1111",
+		"2001:db8::1",
+		"fec0::1",
+		"[2a00:1450:4001:81b::200e]",
+	])("treats IPv6 %s as public", (address) => {
+		expect(isPrivateAddress(address)).toBe(false);
+	});
+
+	it.each([
+		["mapped", "::ffff:127.0.0.1"],
+		["mapped in hex", "::ffff:7f00:1"],
+		["mapped in full", "0:0:0:0:0:ffff:a00:1"],
+		["compatible", "::127.0.0.1"],
+		["compatible in hex", "::7f00:1"],
+		["NAT64", "64:ff9b::10.0.0.1"],
+		["NAT64 in hex", "64:ff9b::a9fe:a9fe"],
+		["6to4", "2002:7f00:1::"],
+		["6to4 metadata", "2002:a9fe:a9fe::"],
+	])("judges an %s IPv4 address by the address it carries", (_form, address) => {
+		expect(isPrivateAddress(address)).toBe(true);
+	});
+
+	it("allows public IPv4 addresses carried in IPv6", () => {
+		expect(isPrivateAddress("::ffff:8.8.8.8")).toBe(false);
+		expect(isPrivateAddress("::ffff:808:808")).toBe(false);
+		expect(isPrivateAddress("64:ff9b::101:101")).toBe(false);
+		expect(isPrivateAddress("2002:808:808::1")).toBe(false);
+	});
+
+	it("catches addresses the URL parser rewrites", () => {
+		expect(urlHost("http://[::ffff:127.0.0.1]/")).toBe("[::ffff:7f00:1]");
+		expect(isPrivateAddress(urlHost("http://[::ffff:127.0.0.1]/"))).toBe(true);
+		expect(isPrivateAddress(urlHost("http://[0:0:0:0:0:0:0:1]/"))).toBe(true);
+		expect(isPrivateAddress(urlHost("http://0x7f.1/"))).toBe(true);
+		expect(isPrivateAddress(urlHost("http://2130706433/"))).toBe(true);
+	});
+
+	it("treats malformed IPv6 addresses as private", () => {
+		expect(isPrivateAddress("1::2::3")).toBe(true);
+		expect(isPrivateAddress("12345::1")).toBe(true);
+		expect(isPrivateAddress("1:2:3:4:5:6:7:8:9")).toBe(true);
+		expect(isPrivateAddress("::1.2.3.256")).toBe(true);
+	});
+
+	it("leaves hostnames to be resolved", () => {
+		expect(isPrivateAddress("example.com")).toBe(false);
+	});
+});
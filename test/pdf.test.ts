@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { extractPages, mergePdfs, selectPages } from "../src/pdf";
+
+/**
+ * A PDF with one page per label, each page's content stream drawing its label.
+ * `xref` replaces the cross-reference section, to build damaged files.
+ */
+function buildPdf(labels: string[], xref?: (offsets: number[]) => string): string {
+	const pageCount = labels.length;
+	const objects = [
+		"<< /Type /Catalog /Pages 2 0 R >>",
+		`<< /Type /Pages /Kids [${labels.map((_, i) => `${3 + i * 2} 0 R`).join(" ")}] /Count ${pageCount} /MediaBox [0 0 200 200] >>`,
+	];
+	for (const [i, label] of labels.entries()) {
+		const content = `BT /F1 12 Tf 20 100 Td (${label}) Tj ET`;
+		objects.push(`<< /Type /Page /Parent 2 0 R /Contents ${4 + i * 2} 0 R >>`);
+		objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+	}
+
+	let text = "%PDF-1.4\n";
+	const offsets: number[] = [];
+	for (const [i, object] of objects.entries()) {
+		offsets.push(text.length);
+		text += `${i + 1} 0 obj\n${object}\nendobj\n`;
+	}
+	const xrefAt = text.length;
+	text += xref
+		? xref(offsets)
+		: `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("")}`
+			+ `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+	return `${text}startxref\n${xrefAt}\n%%EOF\n`;
+}
+
+function pdfFile(text: string, name = "test.pdf"): File {
+	return new File([text], name, { type: "application/pdf" });
+}
+
+async function pageLabels(file: File): Promise<string[]> {
+	const text = await file.text();
+	return [...text.matchAll(/\((page \d+)\) Tj/g)].map((match) => match[1]);
+}
+
+describe("selectPages", () => {
+	it("lists the pages of each range in order", () => {
+		expect(selectPages([{ start: 3, end: 4 }, { start: 1, end: 1 }], 5)).toEqual([2, 3, 0]);
+	});
+
+	it("stops open and overlong ranges at the last page", () => {
+		expect(selectPages([{ start: 4 }], 5)).toEqual([3, 4]);
+		expect(selectPages([{ start: 2, end: 9 }], 3)).toEqual([1, 2]);
+	});
+
+	it("rejects a range starting after the last page", () => {
+		expect(() => selectPages([{ start: 6 }], 5)).toThrow("past the end");
+	});
+});
+
+describe("extractPages", () => {
+	it("keeps only the selected pages", async () => {
+		const file = pdfFile(buildPdf(["page 1", "page 2", "page 3"]));
+		const result = await extractPages(file, [{ start: 3, end: 3 }, { start: 1, end: 1 }]);
+
+		expect(result.name).toBe("test.pdf");
+		expect(await pageLabels(result)).toEqual(["page 3", "page 1"]);
+		await expect(extractPages(result, [{ start: 3 }])).rejects.toThrow("which has 2 pages");
+	});
+
+	it("rebuilds a truncated cross-reference table that runs to the end of the file", async () => {
+		const file = pdfFile(buildPdf(["page 1", "page 2"], (offsets) =>
+			`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n${String(offsets[0]).padStart(10, "0")} 00000 n \n`
+		));
+
+		const result = await extractPages(file, [{ start: 2 }]);
+		expect(await pageLabels(result)).toEqual(["page 2"]);
+	});
+
+	it("rebuilds a cross-reference table with an incomplete subsection header", async () => {
+		const file = pdfFile(buildPdf(["page 1"], () => "xref\n0"));
+
+		const result = await extractPages(file, [{ start: 1 }]);
+		expect(await pageLabels(result)).toEqual(["page 1"]);
+	});
+
+	it("rebuilds the cross-reference of a file whose xref stream has no entry widths", async () => {
+		const file = pdfFile(buildPdf(["page 1"], (offsets) =>
+			`${offsets.length + 1} 0 obj\n<< /Type /XRef /W [0 0 0] /Index [0 1000000000000] /Size 1000000000000 /Root 1 0 R /Length 0 >>\nstream\n\nendstream\nendobj\n`
+		));
+
+		const result = await extractPages(file, [{ start: 1 }]);
+		expect(await pageLabels(result)).toEqual(["page 1"]);
+	});
+
+	it("rejects a file that isn't a PDF", async () => {
+		await expect(extractPages(pdfFile("not a pdf", "notes.pdf"), [{ start: 1 }])).rejects.toThrow('"notes.pdf" could not be read as a PDF');
+	});
+});
+
+describe("mergePdfs", () => {
+	it("joins the pages of every file in order", async () => {
+		const result = await mergePdfs([
+			pdfFile(buildPdf(["page 1", "page 2"]), "first.pdf"),
+			pdfFile(buildPdf(["page 3"]), "second.pdf"),
+		]);
+
+		expect(await pageLabels(result)).toEqual(["page 1", "page 2", "page 3"]);
+	});
+});
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import {
+	checkSender,
+	matchesAllowlist,
+	normalizeSenderEntry,
+	parseAuthenticationResults,
+	verifySenderAuthentication,
+} from "../src/sender-auth";
+
+function header(key: string, value: string) {
+	return { key, value };
+}
+
+const CLOUDFLARE_RESULTS = "mx.cloudflare.net; dkim=pass header.d=example.com header.s=mail; dmarc=pass header.from=example.com policy.dmarc=reject; spf=pass (mx.cloudflare.net: domain of alice@example.com designates 192.0.2.1 as permitted sender) smtp.mailfrom=alice@example.com";
+
+describe("normalizeSenderEntry", () => {
+	it("keeps addresses and domains in lowercase", () => {
+		expect(normalizeSenderEntry(" Alice@Example.com ")).toBe("alice@example.com");
+		expect(normalizeSenderEntry("Example.com")).toBe("example.com");
+	});
+
+	it("treats a leading @ as a domain", () => {
+		expect(normalizeSenderEntry("@example.com")).toBe("example.com");
+	});
+
+	it("rejects entries that are neither", () => {
+		expect(normalizeSenderEntry("alice@")).toBeNull();
+		expect(normalizeSenderEntry("a@b@example.com")).toBeNull();
+		expect(normalizeSenderEntry("localhost")).toBeNull();
+		expect(normalizeSenderEntry("")).toBeNull();
+	});
+});
+
+describe("matchesAllowlist", () => {
+	it("matches full addresses exactly and domains by the address's domain", () => {
+		expect(matchesAllowlist("Alice@Example.com", ["alice@example.com"])).toBe(true);
+		expect(matchesAllowlist("bob@example.com", ["alice@example.com"])).toBe(false);
+		expect(matchesAllowlist("bob@example.com", ["example.com"])).toBe(true);
+		expect(matchesAllowlist("bob@mail.example.com", ["example.com"])).toBe(false);
+	});
+});
+
+describe("parseAuthenticationResults", () => {
+	it("reads the authserv-id and each method's result", () => {
+		expect(parseAuthenticationResults(CLOUDFLARE_RESULTS)).toEqual({
+			authservId: "mx.cloudflare.net",
+			spf: "pass",
+			spfDomain: "example.com",
+			dkim: [{ result: "pass", domain: "example.com" }],
+			dmarc: "pass",
+			dmarcDomain: "example.com",
+		});
+	});
+
+	it("skips the instance of ARC results and the version after the authserv-id", () => {
+		const results = parseAuthenticationResults("i=1; MX.Cloudflare.net 1; dkim=fail header.d=example.org");
+		expect(results.authservId).toBe("mx.cloudflare.net");
+		expect(results.dkim).toEqual([{ result: "fail", domain: "example.org" }]);
+	});
+});
+
+describe("verifySenderAuthentication", () => {
+	it("accepts a DMARC pass for the From domain", () => {
+		const results = "mx.cloudflare.net; dmarc=pass header.from=example.com";
+		expect(verifySenderAuthentication([header("authentication-results", results)], "alice@example.com")).toEqual({ allowed: true });
+	});
+
+	it("ignores a DMARC pass for another domain", () => {
+		const results = "mx.cloudflare.net; dmarc=pass header.from=attacker.example";
+		expect(verifySenderAuthentication([header("authentication-results", results)], "alice@example.com").allowed).toBe(false);
+	});
+
+	it("accepts aligned DKIM or SPF", () => {
+		const dkim = "mx.cloudflare.net; dkim=pass header.d=example.com";
+		const spf = "mx.cloudflare.net; spf=pass smtp.mailfrom=bounces@mail.example.com";
+		expect(verifySenderAuthentication([header("authentication-results", dkim)], "alice@example.com").allowed).toBe(true);
+		expect(verifySenderAuthentication([header("authentication-results", spf)], "alice@example.com").allowed).toBe(true);
+	});
+
+	it("rejects unaligned DKIM and SPF", () => {
+		const results = "mx.cloudflare.net; dkim=pass header.d=example.net; spf=pass smtp.mailfrom=bounces@example.net";
+		expect(verifySenderAuthentication([header("authentication-results", results)], "alice@example.com").allowed).toBe(false);
+	});
+
+	it("rejects a DMARC failure even with other passes", () => {
+		const results = "mx.cloudflare.net; dkim=pass header.d=example.com; dmarc=fail header.from=example.com";
+		expect(verifySenderAuthentication([header("authentication-results", results)], "alice@example.com")).toEqual({
+			allowed: false,
+			reason: "DMARC check failed",
+		});
+	});
+
+	it("only trusts the topmost results", () => {
+		const headers = [
+			header("authentication-results", "mx.cloudflare.net; dmarc=fail header.from=example.com"),
+			header("authentication-results", "mx.cloudflare.net; dmarc=pass header.from=example.com"),
+		];
+		expect(verifySenderAuthentication(headers, "alice@example.com").allowed).toBe(false);
+	});
+
+	it("rejects results added by another server", () => {
+		const headers = [
+			header("authentication-results", "mx.attacker.example; dmarc=pass header.from=example.com"),
+			header("authentication-results", "mx.cloudflare.net; dmarc=pass header.from=example.com"),
+		];
+		expect(verifySenderAuthentication(headers, "alice@example.com")).toEqual({
+			allowed: false,
+			reason: "Authentication results were not added by mx.cloudflare.net",
+		});
+	});
+
+	it("falls back to ARC results from the receiving server", () => {
+		const arc = (server: string) => [header("arc-authentication-results", `i=1; ${server}; dmarc=pass header.from=example.com`)];
+		expect(verifySenderAuthentication(arc("mx.cloudflare.net"), "alice@example.com").allowed).toBe(true);
+		expect(verifySenderAuthentication(arc("mx.attacker.example"), "alice@example.com").allowed).toBe(false);
+	});
+
+	it("rejects mail without results", () => {
+		expect(verifySenderAuthentication([header("subject", "Hello")], "alice@example.com")).toEqual({
+			allowed: false,
+			reason: "No authentication results found",
+		});
+	});
+});
+
+describe("checkSender", () => {
+	it("accepts anyone when the allowlist is empty", () => {
+		expect(checkSender([], "anyone@example.org", [])).toEqual({ allowed: true });
+	});
+
+	it("requires an allowed and authenticated sender", () => {
+		const headers = [header("authentication-results", CLOUDFLARE_RESULTS)];
+		expect(checkSender(headers, "alice@example.com", ["example.com"])).toEqual({ allowed: true });
+		expect(checkSender(headers, "alice@example.com", ["example.org"])).toEqual({
+			allowed: false,
+			reason: "Sender is not on the allowlist",
+		});
+		expect(checkSender([], "alice@example.com", ["example.com"]).allowed).toBe(false);
+	});
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { MAX_UPLOAD_HISTORY, staleUploads } from "../src/upload-history";
+import { UploadRecord, UploadState } from "../src/types";
+
+const NOW = Date.parse("2026-10-19T12:00:00Z");
+const HOUR_MS = 60 * 60 * 1000;
+
+function upload(fileId: string, state: UploadState, hoursAgo: number): UploadRecord {
+	const at = new Date(NOW - hoursAgo * HOUR_MS).toISOString();
+	return { fileId, fileName: `${fileId}.pdf`, source: "api", state, createdAt: at, updatedAt: at, steps: { [state]: at } };
+}
+
+// A full history of finished uploads, newest first, followed by `older`
+function history(...older: UploadRecord[]): UploadRecord[] {
+	return [...Array.from({ length: MAX_UPLOAD_HISTORY }, (_, i) => upload(`recent-${i}`, "cleaned_up", i / 100)), ...older];
+}
+
+describe("staleUploads", () => {
+	it("keeps everything within the limit", () => {
+		expect(staleUploads([upload("old", "failed", 1000)], 24, NOW)).toEqual([]);
+	});
+
+	it("drops finished uploads beyond the limit", () => {
+		const stale = staleUploads(history(upload("failed", "failed", 2), upload("done", "cleaned_up", 3)), 24, NOW);
+		expect(stale.map((record) => record.fileId)).toEqual(["failed", "done"]);
+	});
+
+	it("keeps uploads in progress beyond the limit until they are past the retention", () => {
+		const uploads = history(upload("queued", "queued", 2), upload("kept", "uploaded", 47), upload("stuck", "uploaded", 49));
+		expect(staleUploads(uploads, 48, NOW).map((record) => record.fileId)).toEqual(["stuck"]);
+	});
+
+	it("waits at least a day before treating an upload as stuck", () => {
+		const uploads = history(upload("queued", "queued", 2), upload("stuck", "retrieved", 25));
+		expect(staleUploads(uploads, 0, NOW).map((record) => record.fileId)).toEqual(["stuck"]);
+	});
+});
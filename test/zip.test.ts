@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import { crc32, createZip, extractZipEntry, isZip, readZipDirectory } from "../src/zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+	return new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer());
+}
+
+/**
+ * A single-entry archive compressed with DEFLATE, which createZip doesn't write.
+ * `size` replaces the uncompressed size in the headers, to build archives that lie about it.
+ */
+async function deflatedZip(name: string, data: Uint8Array, size = data.length): Promise<Uint8Array> {
+	const nameBytes = encoder.encode(name);
+	const compressed = await deflateRaw(data);
+	const crc = crc32(data);
+
+	const local = new Uint8Array(30 + nameBytes.length);
+	const localView = new DataView(local.buffer);
+	localView.setUint32(0, 0x04034b50, true);
+	localView.setUint16(8, 8, true);
+	localView.setUint32(14, crc, true);
+	localView.setUint32(18, compressed.length, true);
+	localView.setUint32(22, size, true);
+	localView.setUint16(26, nameBytes.length, true);
+	local.set(nameBytes, 30);
+
+	const central = new Uint8Array(46 + nameBytes.length);
+	const centralView = new DataView(central.buffer);
+	centralView.setUint32(0, 0x02014b50, true);
+	centralView.setUint16(10, 8, true);
+	centralView.setUint32(16, crc, true);
+	centralView.setUint32(20, compressed.length, true);
+	centralView.setUint32(24, size, true);
+	centralView.setUint16(28, nameBytes.length, true);
+	central.set(nameBytes, 46);
+
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true);
+	endView.setUint16(8, 1, true);
+	endView.setUint16(10, 1, true);
+	endView.setUint32(12, central.length, true);
+	endView.setUint32(16, local.length + compressed.length, true);
+
+	const result = new Uint8Array(local.length + compressed.length + central.length + end.length);
+	result.set(local, 0);
+	result.set(compressed, local.length);
+	result.set(central, local.length + compressed.length);
+	result.set(end, local.length + compressed.length + central.length);
+	return result;
+}
+
+describe("crc32", () => {
+	it("matches the standard check value", () => {
+		expect(crc32(encoder.encode("123456789"))).toBe(0xcbf43926);
+		expect(crc32(new Uint8Array(0))).toBe(0);
+	});
+});
+
+describe("createZip and readZipDirectory", () => {
+	it("round-trips stored entries in order, leaving out directories", async () => {
+		const archive = createZip([
+			{ name: "mimetype", data: encoder.encode("application/epub+zip") },
+			{ name: "OEBPS/", data: new Uint8Array(0) },
+			{ name: "OEBPS/chapter ü.xhtml", data: encoder.encode("<html/>") },
+		]);
+
+		expect(isZip(archive)).toBe(true);
+		const entries = readZipDirectory(archive, 10);
+		expect(entries.map((entry) => [entry.name, entry.method, entry.size])).toEqual([
+			["mimetype", 0, 20],
+			["OEBPS/chapter ü.xhtml", 0, 7],
+		]);
+		expect(decoder.decode(await extractZipEntry(archive, entries[1], 100))).toBe("<html/>");
+	});
+
+	it("rejects archives with too many entries", () => {
+		const archive = createZip([1, 2, 3].map((i) => ({ name: `${i}.pdf`, data: new Uint8Array(1) })));
+		expect(() => readZipDirectory(archive, 2)).toThrow("over the limit of 2");
+	});
+
+	it("rejects data without a central directory", () => {
+		expect(isZip(encoder.encode("%PDF-1.4"))).toBe(false);
+		expect(() => readZipDirectory(encoder.encode("PK\u0003\u0004 not really"), 10)).toThrow("no central directory");
+	});
+});
+
+describe("extractZipEntry", () => {
+	it("inflates deflated entries", async () => {
+		const text = "All work and no play makes Jack a dull boy. ".repeat(100);
+		const archive = await deflatedZip("jack.pdf", encoder.encode(text));
+		const [entry] = readZipDirectory(archive, 10);
+
+		expect(entry.compressedSize).toBeLessThan(text.length);
+		expect(decoder.decode(await extractZipEntry(archive, entry, text.length))).toBe(text);
+	});
+
+	it("refuses entries whose header is over the limit", async () => {
+		const archive = createZip([{ name: "big.pdf", data: new Uint8Array(100) }]);
+		const [entry] = readZipDirectory(archive, 10);
+		await expect(extractZipEntry(archive, entry, 99)).rejects.toThrow("over the limit of 99 bytes");
+	});
+
+	it("stops inflating once the output passes the limit, whatever the header claims", async () => {
+		const archive = await deflatedZip("bomb.pdf", new Uint8Array(1024 * 1024), 10);
+		const [entry] = readZipDirectory(archive, 10);
+
+		expect(entry.size).toBe(10);
+		await expect(extractZipEntry(archive, entry, 1000)).rejects.toThrow("expands to over 1000 bytes");
+	});
+
+	it("detects corrupt entries", async () => {
+		const archive = createZip([{ name: "doc.pdf", data: encoder.encode("hello") }]);
+		const [entry] = readZipDirectory(archive, 10);
+		archive[30 + "doc.pdf".length] ^= 0xff;
+		await expect(extractZipEntry(archive, entry, 100)).rejects.toThrow("checksum mismatch");
+	});
+
+	it("refuses encrypted entries", async () => {
+		const archive = createZip([{ name: "secret.pdf", data: new Uint8Array(1) }]);
+		const [entry] = readZipDirectory(archive, 10);
+		await expect(extractZipEntry(archive, { ...entry, encrypted: true }, 100)).rejects.toThrow("is encrypted");
+	});
+});
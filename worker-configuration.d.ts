@@ -4,10 +4,21 @@
 declare namespace Cloudflare {
 	interface Env {
 		SIGNUP_DISABLED: "true";
+		REMARKABLE_DISCOVERY_URL: "";
+		REMARKABLE_AUTH_HOST: "";
+		REMARKABLE_SYNC_HOST: "";
+		REMARKABLE_DOCUMENT_HOST: "";
+		ALLOW_HTTP_ENDPOINTS: "false";
+		UPLOAD_LIMIT_PER_HOUR: "30";
+		UPLOAD_LIMIT_PER_DAY: "200";
+		UPLOAD_LIMIT_BYTES_PER_DAY: "1073741824";
+		ADMIN_SECRET: string;
 		AUTH_DO: DurableObjectNamespace<import("./src/index").AuthDO>;
+		REGISTRY_DO: DurableObjectNamespace<import("./src/index").RegistryDO>;
 		DOCUMENT_STORAGE: R2Bucket;
 		ASSETS: Fetcher;
 		MY_WORKFLOW: Workflow;
+		SEND_EMAIL: SendEmail;
 	}
 }
 interface Env extends Cloudflare.Env {}